@@ -1,13 +1,21 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import FileUpload from './components/FileUpload';
-import { TimeChart, FFTChart } from './components/Charts';
-import { calculateFFT, calculateStats, downsampleData, parseCSV, processVibrationData, calculateLiftBoundaries, calculateIsoStats } from './utils/mathUtils';
-import { applyFilters } from './utils/dspUtils';
+import { TimeChart, FFTChart, FilterResponseChart, SpectrogramChart, OctaveBandChart, CrossSpectrumChart } from './components/Charts';
+import { calculateSpectrum, calculateCrossSpectrum, DEFAULT_SPECTRUM_CONFIG, calculateSpectrogram, DEFAULT_SPECTROGRAM_CONFIG, calculateStats, downsampleData, processVibrationData, calculateLiftBoundaries, calculateIsoStats, calculateKinematics, detectRuns, sliceChannels, findTimeIndex, findRunOverride, NO_BOUNDARY_OVERRIDES } from './utils/mathUtils';
+import { DEFAULT_SAMPLE_RATE, ACCEL_UNIT_LABELS, formatIssue } from './utils/importUtils';
+import { applyFilterStages, applyWeightings, createFilterStage, describeFilterStage, calculateFilterResponse, filterCutoffs, resampleChannels } from './utils/dspUtils';
+import { repairTimeBase } from './utils/timeBaseUtils';
+import { applyOrientation, DEFAULT_ORIENTATION, UPSIDE_DOWN_ORIENTATION } from './utils/orientationUtils';
+import { loadDevicePresets, saveDevicePreset, deleteDevicePreset, findDevicePreset } from './services/presetService';
+import { createSession, readSession, sessionFileName } from './utils/sessionUtils';
+import { EMPTY_METADATA, buildMetadata, hasMetadata } from './utils/metadataUtils';
+import { NO_DRIFT_CORRECTION } from './utils/integrationUtils';
+import { calculateThirdOctave, thirdOctaveCsv } from './utils/octaveUtils';
+import { DEFAULT_ELEVATOR_CONFIG, componentFrequencies, identifyPeaks } from './utils/peakUtils';
+import { DEFAULT_ENVELOPE_CONFIG, calculateEnvelopeSpectrum, envelopeBand, meanSpeed, rollerFaultFrequencies } from './utils/envelopeUtils';
 import { analyzeWithGemini } from './services/geminiService';
-import { ProcessedDataPoint, DataAxis, AnalysisStats, AIAnalysisResult, ThemeConfig, FilterConfig, RawDataPoint, ElevatorBoundaries, IsoStats } from './types';
-
-const SAMPLE_RATE = 1600;
+import { ProcessedDataPoint, DataAxis, AnalysisStats, AIAnalysisResult, ThemeConfig, FilterConfig, FilterStage, FilterStageType, ElevatorBoundaries, BoundaryOverrides, RunBoundaryOverride, IsoStats, KinematicSummary, LiftRun, RecordingInfo, RawChannels, ProcessedChannels, GapRepairMode, OrientationConfig, DevicePreset, SensorAxis, SessionFile, SessionSettings, RecordingMetadata, DriftCorrection, DriftCorrectionMode, SpectrumMode, EnvelopeConfig, SpectrumConfig, SpectrumResult, WindowFunction, SpectrumScaling, SpectrogramConfig, SpectrogramColorMap, OctaveSource, ElevatorConfig, ElevatorComponent, SpectralPeak } from './types';
 
 // --- TRANSLATIONS ---
 const TRANSLATIONS = {
@@ -31,9 +39,60 @@ const TRANSLATIONS = {
     kinematics: '运动学',
     vibration: '振动',
     fft: '频谱分析',
+    spectrogram: '时频谱 (全程)',
+    octaveBands: '1/3 倍频程 (RMS)',
+    octaveWindow: '分析窗口',
+    octaveConstVel: '匀速段 t1–t2',
+    octaveNoConstVel: '未识别匀速段，使用分析窗口',
+    exportCsv: '导出 CSV',
+    showSpectrogram: '显示时频谱',
+    colorMap: '色图',
+    colorScale: '色标',
+    scaleNames: { db: 'dB', linear: '线性' },
+    dynamicRange: '动态范围',
+    freqMax: '最高频率',
     yScale: 'Y轴范围',
     refLines: '参考线',
     dominant: '主频',
+    filterResponse: '滤波器响应 (幅值 / 相位)',
+    overlayResponse: '叠加滤波器响应',
+    spectrumFft: '频谱',
+    spectrumEnvelope: '包络谱',
+    spectrumCross: '互谱 / 相干',
+    crossChannels: '通道',
+    crossNote: '上：互谱幅值与相干函数 (右轴, 0–1)；下：B 相对 A 的相位。相干接近 1 表示同一振源。单段设置时自动分为多段平均。',
+    spectrumAveraged: '段平均',
+    spectrumWindow: '窗函数',
+    windowNames: { rectangular: '矩形', hann: '汉宁', hamming: '汉明', flattop: '平顶' },
+    spectrumSegment: '段长 (点)',
+    segmentWhole: '整个窗口',
+    spectrumOverlap: '重叠',
+    spectrumScaling: '刻度',
+    scalingNames: { amplitude: '幅值谱', psd: '功率谱密度' },
+    zeroPadding: '补零',
+    freqRange: '频率范围 (Hz)',
+    envelopeBand: '共振带 (Hz)',
+    envelopeCenter: '中心',
+    envelopeWidth: '带宽',
+    faultHarmonics: '倍频数',
+    envelopeNote: '带通 → 希尔伯特包络 → 频谱；虚线为滚轮转频及其倍频 (滚轮直径与速度见“电梯参数”)。',
+    elevatorConfig: '电梯参数',
+    carSpeed: '轿厢速度 (m/s)',
+    carSpeedHint: '留空则取分析窗口内平均 |VZ|',
+    sheaveDiameter: '曳引轮直径 (mm)',
+    ropingRatio: '曳引比',
+    railLength: '导轨长度 (m)',
+    rollerDiameter: '导靴滚轮直径 (mm)',
+    motorPoles: '电机极数',
+    componentRates: '部件频率',
+    componentNames: { sheave: '曳引轮', motorPole: '电机极通过', railJoint: '导轨接头', roller: '导靴滚轮' },
+    peakTable: '峰值识别',
+    peakAmplitude: '幅值',
+    peakSnr: '信噪比 (dB)',
+    peakFamily: '谐波族',
+    peakComponent: '部件',
+    peakUnmatched: '未匹配 (结构共振?)',
+    noPeaks: '未找到显著峰值',
     magnitude: '幅值',
     unitAccel: 'Gals',
     maxPkPk: '最大峰峰值 (Max Pk-Pk)',
@@ -42,14 +101,24 @@ const TRANSLATIONS = {
     rms: '时间平均计权值 (aw)',
     peak: '峰值 (Peak)',
     dragDrop: '拖拽或点击上传',
-    supports: '支持 .csv 格式 (包含 ax, ay, az 列)',
+    supports: '支持 .csv / .txt / .tsv、.wav、原始二进制 .bin、UFF 58 (.uff / .unv) 格式，以及已保存的 .vibra.json 会话',
     systemInfo: '系统将自动通过积分计算速度(Vz)和位移(Sz)',
     dsp: '信号处理 / 滤波器',
     enableFilter: '启用滤波',
-    highPass: '高通 (Hz)',
-    lowPass: '低通 (Hz)',
+    filterStages: '滤波级 (依次执行)',
+    addStage: '+ 添加滤波级',
+    noStages: '未添加滤波级',
+    stageTypes: { lowpass: '低通', highpass: '高通', bandpass: '带通', bandstop: '带阻', notch: '陷波' },
+    stageOrder: ' 阶',
+    stageFreq: '频率 (Hz)',
+    stageBand: '频带 (Hz)',
+    moveUp: '上移',
+    moveDown: '下移',
+    removeStage: '删除',
     presetIso: 'GB/T 24474 (10Hz)',
     presetDefault: '复位 (全通)',
+    weighting: '频率计权 (ISO 2631)',
+    weightingVertical: 'Z 轴曲线',
     target: '目标',
     targetAll: '所有轴',
     targetZ: '仅 Z 轴',
@@ -63,6 +132,8 @@ const TRANSLATIONS = {
     zoomTip: '提示: 在图表上拖拽可放大',
     toggleSidebar: '侧边栏',
     export: '导出/打印',
+    saveSession: '保存会话',
+    openSession: '打开会话',
     exportTitle: '导出选项',
     selectCharts: '选择图表',
     selectAll: '全选',
@@ -72,7 +143,106 @@ const TRANSLATIONS = {
     showChart: '显示图表',
     hideChart: '隐藏图表',
     t1t2: '恒速区 (t1-t2)',
-    t0t3: '全过程 (t0-t3)'
+    t0t3: '全过程 (t0-t3)',
+    kinematicSummary: '运行特性 (ISO 18738)',
+    accelPhase: '加速 (t0-t1)',
+    decelPhase: '减速 (t2-t3)',
+    maxAbs: '最大值',
+    maxJerk: '最大加加速度',
+    maxVelocity: '最大速度',
+    v95: 'V95 (恒速区)',
+    phaseDurations: '时长 加速 / 恒速 / 减速',
+    kinematicNote: '加速度经 10 Hz 低通, 加加速度 (JZ) 经 5 Hz 低通后求导',
+    run: '运行',
+    runAll: '整段记录',
+    runUp: '上行',
+    runDown: '下行',
+    runComparison: '运行对比',
+    runDistance: '行程 (m)',
+    runDuration: '运行时间 (s)',
+    boundaryTimes: '界限时间 (s)',
+    boundaryManual: '手动',
+    boundaryAuto: '自动',
+    boundaryReset: '恢复自动',
+    boundaryHint: '拖动图中的 Lim 线或输入时间 (回车确认)',
+    boundaryGuess: '未检测到恒速段, 当前为 40%/60% 估计值',
+    boundaryEstimate: '估计',
+    runNote: '按停站 (|VZ| 低于最大速度 5% 超过 1 s) 分段；点击行选择并放大该次运行',
+    fsFromTime: '采样率取自时间列',
+    fsFromHeader: '采样率取自文件头',
+    fsDefault: '文件中未找到采样率，使用默认值',
+    fsManual: '采样率为手动设置',
+    fsJitter: '时间间隔不均匀 (抖动)',
+    unitConverted: '原始单位 (已换算为 Gals)',
+    unitDefault: '文件中未标注单位，按 Gals 处理',
+    importWarnings: '条导入警告',
+    dataQuality: '数据质量',
+    dqClean: '时间轴连续，无需修复',
+    dqGaps: '采样间断',
+    dqMissing: '缺失采样',
+    dqLongest: '最长间断',
+    dqDuplicates: '重复时间戳',
+    dqNonMonotonic: '时间倒序',
+    dqRepair: '间断处理',
+    dqInterpolate: '插值到均匀时间轴',
+    dqSplit: '在长间断处分段',
+    dqNone: '保持原样',
+    dqSegment: '分析段',
+    dqFixed: '已修复',
+    dqSorted: '已按时间重新排序',
+    dqDupRemoved: '已删除重复采样',
+    dqFilled: '插值补齐采样',
+    dqResampled: '已重采样到均匀时间轴',
+    dqNoneWarning: '间断未处理，跨越间断的速度/位移积分将有偏差',
+    resample: '重采样 (Hz)',
+    resampleOriginal: '原始采样率',
+    resampleApply: '应用',
+    resampleActive: '抗混叠重采样',
+    integration: '速度 / 位移积分',
+    driftMode: '漂移修正',
+    driftNone: '仅去均值',
+    driftZeroVelocity: '静止段速度归零',
+    driftPolynomial: '多项式基线 (静止段拟合)',
+    driftHighpass: '高通积分',
+    driftOrder: '多项式阶数',
+    driftHighpassFreq: '高通截止 (Hz)',
+    driftHighpassHint: '高通会削弱整段运行的低频速度，仅适用于短时振动记录',
+    driftRun: '检测到的运行段',
+    driftNoRun: '未检测到运行段，按整段去均值积分',
+    driftRestVelocity: '静止段残余速度',
+    driftEndVelocity: '结束速度',
+    driftTravel: '运行距离',
+    orientation: '传感器方向',
+    levelGravity: '按重力方向校平',
+    stationarySec: '静止段 (s)',
+    tilt: '倾斜角',
+    orientNoGravity: '静止段中没有重力分量 (交流耦合传感器?)，未校平',
+    orientMoving: '静止段内振动较大，重力估计可能不准',
+    orientNotPerm: '轴映射有重复，有一个传感器轴未被使用',
+    upsideDown: '倒置安装',
+    device: '设备',
+    devicePlaceholder: '设备编号 / 名称',
+    savePreset: '保存为设备预设',
+    presets: '设备预设',
+    deletePreset: '删除',
+    mdAdd: '添加运行信息',
+    mdEdit: '编辑运行信息',
+    mdTitle: '运行信息',
+    mdPrefilled: '已根据文件头和文件名预填，请核对',
+    mdElevatorId: '电梯编号',
+    mdSite: '现场地址',
+    mdRatedSpeed: '额定速度 (m/s)',
+    mdRatedAccel: '额定加速度 (m/s²)',
+    mdLoad: '轿厢载荷 (kg)',
+    mdDirection: '运行方向',
+    mdUp: '上行',
+    mdDown: '下行',
+    mdStartFloor: '起始楼层',
+    mdStopFloor: '停止楼层',
+    mdSensor: '传感器编号',
+    mdTechnician: '检测人员',
+    mdDate: '检测日期',
+    save: '保存'
   },
   en: {
     title: 'MESE ELEVATOR VIBRATION ANALYSIS SYSTEM',
@@ -94,9 +264,60 @@ const TRANSLATIONS = {
     kinematics: 'KINEMATICS',
     vibration: 'VIBRATION',
     fft: 'FREQUENCY ANALYSIS',
+    spectrogram: 'SPECTROGRAM (FULL RUN)',
+    octaveBands: '1/3-OCTAVE BANDS (RMS)',
+    octaveWindow: 'Window',
+    octaveConstVel: 'Const. vel. t1–t2',
+    octaveNoConstVel: 'No constant-velocity segment found; using the analysis window',
+    exportCsv: 'Export CSV',
+    showSpectrogram: 'Show Spectrogram',
+    colorMap: 'Colours',
+    colorScale: 'Scale',
+    scaleNames: { db: 'dB', linear: 'Linear' },
+    dynamicRange: 'Range',
+    freqMax: 'Max freq',
     yScale: 'Y-SCALE',
     refLines: 'Ref Lines',
     dominant: 'Dominant',
+    filterResponse: 'FILTER RESPONSE (MAGNITUDE / PHASE)',
+    overlayResponse: 'Overlay Filter Response',
+    spectrumFft: 'FFT',
+    spectrumEnvelope: 'Envelope',
+    spectrumCross: 'Cross / Coherence',
+    crossChannels: 'Channels',
+    crossNote: 'Top: cross magnitude and coherence (right axis, 0–1); bottom: phase of B relative to A. Coherence near 1 means one common source. A whole-window segment setting is split into several for averaging.',
+    spectrumAveraged: 'avg',
+    spectrumWindow: 'Window',
+    windowNames: { rectangular: 'Rectangular', hann: 'Hann', hamming: 'Hamming', flattop: 'Flat-top' },
+    spectrumSegment: 'Segment (pts)',
+    segmentWhole: 'Whole window',
+    spectrumOverlap: 'Overlap',
+    spectrumScaling: 'Scaling',
+    scalingNames: { amplitude: 'Amplitude', psd: 'PSD' },
+    zeroPadding: 'Zero pad',
+    freqRange: 'Range (Hz)',
+    envelopeBand: 'Resonance band (Hz)',
+    envelopeCenter: 'Centre',
+    envelopeWidth: 'Width',
+    faultHarmonics: 'Harmonics',
+    envelopeNote: 'Band-pass → Hilbert envelope → spectrum; dashed lines mark the roller rotation frequency and its multiples (roller diameter and speed under Elevator Configuration).',
+    elevatorConfig: 'Elevator Configuration',
+    carSpeed: 'Car speed (m/s)',
+    carSpeedHint: 'Empty = mean |VZ| in the analysis window',
+    sheaveDiameter: 'Sheave diameter (mm)',
+    ropingRatio: 'Roping',
+    railLength: 'Rail length (m)',
+    rollerDiameter: 'Roller diameter (mm)',
+    motorPoles: 'Motor poles',
+    componentRates: 'Component frequencies',
+    componentNames: { sheave: 'Sheave', motorPole: 'Motor pole pass', railJoint: 'Rail joint', roller: 'Guide roller' },
+    peakTable: 'PEAK IDENTIFICATION',
+    peakAmplitude: 'Amplitude',
+    peakSnr: 'SNR (dB)',
+    peakFamily: 'Family',
+    peakComponent: 'Component',
+    peakUnmatched: 'Unmatched (structural resonance?)',
+    noPeaks: 'No significant peaks',
     magnitude: 'Magnitude',
     unitAccel: 'Gals',
     maxPkPk: 'Max Pk-Pk',
@@ -105,14 +326,24 @@ const TRANSLATIONS = {
     rms: 'Time-Averaged Weighted (aw)',
     peak: 'Peak',
     dragDrop: 'Drag & Drop or Click to Upload',
-    supports: 'Supports .csv (ax, ay, az)',
+    supports: 'Supports .csv / .txt / .tsv, .wav, raw binary .bin, UFF 58 (.uff / .unv), or a saved .vibra.json session',
     systemInfo: 'The system will automatically calculate Velocity (Vz) and Displacement (Sz) via integration.',
     dsp: 'Signal Processing / Filters',
     enableFilter: 'Enable Filtering',
-    highPass: 'High Pass (Hz)',
-    lowPass: 'Low Pass (Hz)',
+    filterStages: 'Filter Stages (run in order)',
+    addStage: '+ Add Stage',
+    noStages: 'No filter stages',
+    stageTypes: { lowpass: 'Low Pass', highpass: 'High Pass', bandpass: 'Band Pass', bandstop: 'Band Stop', notch: 'Notch' },
+    stageOrder: '-pole',
+    stageFreq: 'Freq (Hz)',
+    stageBand: 'Band (Hz)',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    removeStage: 'Remove',
     presetIso: 'GB/T 24474 (10Hz)',
     presetDefault: 'Reset',
+    weighting: 'Frequency Weighting (ISO 2631)',
+    weightingVertical: 'Z Curve',
     target: 'Target',
     targetAll: 'All Axes',
     targetZ: 'Z-Axis Only',
@@ -126,6 +357,8 @@ const TRANSLATIONS = {
     zoomTip: 'Tip: Drag on chart to zoom',
     toggleSidebar: 'Sidebar',
     export: 'Export/Print',
+    saveSession: 'Save Session',
+    openSession: 'Open Session',
     exportTitle: 'Export Options',
     selectCharts: 'Select Charts',
     selectAll: 'Select All',
@@ -135,7 +368,106 @@ const TRANSLATIONS = {
     showChart: 'Show Chart',
     hideChart: 'Hide Chart',
     t1t2: 'Const Vel (t1-t2)',
-    t0t3: 'Total (t0-t3)'
+    t0t3: 'Total (t0-t3)',
+    kinematicSummary: 'Run Profile (ISO 18738)',
+    accelPhase: 'Acceleration (t0-t1)',
+    decelPhase: 'Deceleration (t2-t3)',
+    maxAbs: 'Max',
+    maxJerk: 'Max Jerk',
+    maxVelocity: 'Max Velocity',
+    v95: 'V95 (Const Vel)',
+    phaseDurations: 'Time Accel / Const / Decel',
+    kinematicNote: 'Acceleration low-passed at 10 Hz, jerk (JZ) differentiated after a 5 Hz low-pass',
+    run: 'Run',
+    runAll: 'Whole recording',
+    runUp: 'Up',
+    runDown: 'Down',
+    runComparison: 'RUN COMPARISON',
+    runDistance: 'Travel (m)',
+    runDuration: 'Run Time (s)',
+    boundaryTimes: 'Boundaries (s)',
+    boundaryManual: 'manual',
+    boundaryAuto: 'Auto',
+    boundaryReset: 'Reset to auto',
+    boundaryHint: 'Drag the Lim lines on the charts or type a time (Enter to apply)',
+    boundaryGuess: 'no constant-velocity plateau found, these are 40%/60% estimates',
+    boundaryEstimate: 'estimate',
+    runNote: 'Split at stops (|VZ| below 5% of top speed for over 1 s); click a row to select and zoom to the run',
+    fsFromTime: 'Sample rate from time column',
+    fsFromHeader: 'Sample rate from file header',
+    fsDefault: 'No sample rate found in file, using default',
+    fsManual: 'Sample rate set manually',
+    fsJitter: 'Uneven sample spacing (jitter)',
+    unitConverted: 'Source unit (converted to Gals)',
+    unitDefault: 'No unit in file, assumed Gals',
+    importWarnings: 'import warnings',
+    dataQuality: 'Data Quality',
+    dqClean: 'Time base is continuous, nothing to fix',
+    dqGaps: 'Gaps / dropouts',
+    dqMissing: 'Missing samples',
+    dqLongest: 'Longest gap',
+    dqDuplicates: 'Duplicate stamps',
+    dqNonMonotonic: 'Out-of-order stamps',
+    dqRepair: 'Gap handling',
+    dqInterpolate: 'Interpolate onto uniform grid',
+    dqSplit: 'Split at large gaps',
+    dqNone: 'Leave as recorded',
+    dqSegment: 'Segment',
+    dqFixed: 'Fixed',
+    dqSorted: 'Re-sorted by time',
+    dqDupRemoved: 'Duplicate samples removed',
+    dqFilled: 'Samples interpolated',
+    dqResampled: 'Resampled onto uniform grid',
+    dqNoneWarning: 'Gaps left in place; velocity/displacement across them will be off',
+    resample: 'Resample (Hz)',
+    resampleOriginal: 'Original rate',
+    resampleApply: 'Apply',
+    resampleActive: 'Anti-aliased resampling',
+    integration: 'Velocity / Displacement',
+    driftMode: 'Drift Correction',
+    driftNone: 'Mean removal only',
+    driftZeroVelocity: 'Zero velocity at rest',
+    driftPolynomial: 'Polynomial baseline (fit at rest)',
+    driftHighpass: 'High-pass integration',
+    driftOrder: 'Polynomial order',
+    driftHighpassFreq: 'High-pass cutoff (Hz)',
+    driftHighpassHint: 'High-pass weakens the low-frequency velocity of a whole run; meant for short vibration records',
+    driftRun: 'Detected run',
+    driftNoRun: 'No run detected; integrated with mean removal over the whole record',
+    driftRestVelocity: 'Residual velocity at rest',
+    driftEndVelocity: 'End velocity',
+    driftTravel: 'Travel distance',
+    orientation: 'Sensor Orientation',
+    levelGravity: 'Level from gravity',
+    stationarySec: 'Stationary (s)',
+    tilt: 'Tilt',
+    orientNoGravity: 'No gravity in the stationary segment (AC-coupled sensor?), not levelled',
+    orientMoving: 'Stationary segment is not still, gravity estimate may be off',
+    orientNotPerm: 'A sensor axis is used twice and another is unused',
+    upsideDown: 'Upside down',
+    device: 'Device',
+    devicePlaceholder: 'Logger serial / name',
+    savePreset: 'Save as device preset',
+    presets: 'Device presets',
+    deletePreset: 'Delete',
+    mdAdd: 'Add run details',
+    mdEdit: 'Edit run details',
+    mdTitle: 'Run Details',
+    mdPrefilled: 'Prefilled from the file header and name, please check',
+    mdElevatorId: 'Elevator ID',
+    mdSite: 'Site address',
+    mdRatedSpeed: 'Rated speed (m/s)',
+    mdRatedAccel: 'Rated accel. (m/s²)',
+    mdLoad: 'Car load (kg)',
+    mdDirection: 'Direction',
+    mdUp: 'Up',
+    mdDown: 'Down',
+    mdStartFloor: 'Start floor',
+    mdStopFloor: 'Stop floor',
+    mdSensor: 'Sensor serial',
+    mdTechnician: 'Technician',
+    mdDate: 'Date',
+    save: 'Save'
   }
 };
 
@@ -154,7 +486,7 @@ const THEMES: ThemeConfig[] = [
     gridColor: '#374151',
     brushColor: '#6b7280',
     textColorHex: '#9ca3af', // gray-400
-    chartColors: { ax: '#ef4444', ay: '#22c55e', az: '#3b82f6', vz: '#a855f7', sz: '#f97316' }
+    chartColors: { ax: '#ef4444', ay: '#22c55e', az: '#3b82f6', vz: '#a855f7', sz: '#f97316', jz: '#14b8a6' }
   },
   {
     id: 'antigravity',
@@ -169,7 +501,7 @@ const THEMES: ThemeConfig[] = [
     gridColor: '#475569',
     brushColor: '#cbd5e1',
     textColorHex: '#cbd5e1', // slate-300 - High visibility on dark
-    chartColors: { ax: '#f472b6', ay: '#4ade80', az: '#22d3ee', vz: '#c084fc', sz: '#fbbf24' }
+    chartColors: { ax: '#f472b6', ay: '#4ade80', az: '#22d3ee', vz: '#c084fc', sz: '#fbbf24', jz: '#2dd4bf' }
   },
   {
     id: 'engineering',
@@ -185,7 +517,7 @@ const THEMES: ThemeConfig[] = [
     gridColor: '#d6d3d1', // stone-300
     brushColor: '#a8a29e',
     textColorHex: '#57534e', // stone-600
-    chartColors: { ax: '#dc2626', ay: '#16a34a', az: '#2563eb', vz: '#7c3aed', sz: '#d97706' }
+    chartColors: { ax: '#dc2626', ay: '#16a34a', az: '#2563eb', vz: '#7c3aed', sz: '#d97706', jz: '#0d9488' }
   },
   {
     id: 'pure-white',
@@ -200,35 +532,85 @@ const THEMES: ThemeConfig[] = [
     gridColor: '#e5e7eb', // gray-200
     brushColor: '#9ca3af',
     textColorHex: '#374151', // gray-700
-    chartColors: { ax: '#ef4444', ay: '#16a34a', az: '#2563eb', vz: '#7c3aed', sz: '#d97706' }
+    chartColors: { ax: '#ef4444', ay: '#16a34a', az: '#2563eb', vz: '#7c3aed', sz: '#d97706', jz: '#0d9488' }
   }
 ];
 
+// Manual boundaries without the one set on this run
+const withoutRunOverride = (overrides: RunBoundaryOverride[], run: LiftRun) => {
+  const i = findRunOverride(run, overrides);
+  return i < 0 ? overrides : overrides.filter((_, k) => k !== i);
+};
+
 const App: React.FC = () => {
   // Language State
   const [lang, setLang] = useState<'zh' | 'en'>('zh');
   const t = TRANSLATIONS[lang];
 
   // Data State
-  const [rawData, setRawData] = useState<RawDataPoint[] | null>(null);
+  const [importedData, setImportedData] = useState<RawChannels | null>(null);
   const [fileName, setFileName] = useState<string>("");
+  const [recordingInfo, setRecordingInfo] = useState<RecordingInfo | null>(null);
+  const sampleRate = recordingInfo?.sampleRate ?? null;
+  const sourceUnit = recordingInfo?.unit ?? null;
+  const recordedFs = sampleRate?.fs ?? DEFAULT_SAMPLE_RATE;
+
+  // Run Metadata State (draft is what the form edits until saved)
+  const [metadata, setMetadata] = useState<RecordingMetadata>(EMPTY_METADATA);
+  const [metadataDraft, setMetadataDraft] = useState<RecordingMetadata | null>(null);
+
+  // Time Base Repair State (gaps, duplicates, out-of-order stamps)
+  const [gapRepairMode, setGapRepairMode] = useState<GapRepairMode>('interpolate');
+  const [segmentIndex, setSegmentIndex] = useState<number>(0);
+  const { data: repairedData, report: qualityReport } = useMemo(() => {
+    if (!importedData || !sampleRate) return { data: null, report: null };
+    return repairTimeBase(importedData, sampleRate, gapRepairMode, segmentIndex);
+  }, [importedData, sampleRate, gapRepairMode, segmentIndex]);
+
+  // Resampling State (null keeps the recorded rate); fs below is the rate the rest of the pipeline sees
+  const [resampleRate, setResampleRate] = useState<number | null>(null);
+  const [resampleInput, setResampleInput] = useState<string>('');
+  const { data: resampledData, fs } = useMemo(() => {
+    if (!repairedData || !resampleRate) return { data: repairedData, fs: recordedFs };
+    return resampleChannels(repairedData, recordedFs, resampleRate);
+  }, [repairedData, recordedFs, resampleRate]);
+
+  // Sensor Orientation State (axis remap + gravity levelling, with per-device presets)
+  const [orientation, setOrientation] = useState<OrientationConfig>(DEFAULT_ORIENTATION);
+  const [deviceName, setDeviceName] = useState<string>('');
+  const [devicePresets, setDevicePresets] = useState<DevicePreset[]>(() => loadDevicePresets());
+  const { data: rawData, result: orientationResult } = useMemo(() => {
+    if (!resampledData) return { data: null, result: null };
+    return applyOrientation(resampledData, fs, orientation);
+  }, [resampledData, fs, orientation]);
   const [displayData, setDisplayData] = useState<ProcessedDataPoint[]>([]);
-  const [finalProcessedData, setFinalProcessedData] = useState<ProcessedDataPoint[] | null>(null);
+  const [finalProcessedData, setFinalProcessedData] = useState<ProcessedChannels | null>(null);
+  // Integrated result from the import worker, reused while no filter is applied
+  const loadedDataRef = useRef<ProcessedChannels | null>(null);
 
   // ISO Calculation State
   const [boundaries, setBoundaries] = useState<ElevatorBoundaries | null>(null);
   const [isoStats, setIsoStats] = useState<IsoStats | null>(null);
+  const [kinematics, setKinematics] = useState<KinematicSummary | null>(null);
+  const [runs, setRuns] = useState<LiftRun[]>([]);
+  const [selectedRun, setSelectedRun] = useState<number | null>(0); // null = whole recording
+  const [boundaryOverrides, setBoundaryOverrides] = useState<BoundaryOverrides>(NO_BOUNDARY_OVERRIDES); // Manual Lim 0-3, per run and for the whole recording
+  const [limDraft, setLimDraft] = useState<string[]>(['', '', '', '']);
   const [showIsoBoundaries, setShowIsoBoundaries] = useState(true);
 
   // DSP State
   const [filterConfig, setFilterConfig] = useState<FilterConfig>({
     enabled: false,
-    highPassFreq: 0,
-    lowPassFreq: 30,
+    stages: [{ ...createFilterStage('lowpass'), order: 2, freq: 30 }],
     isStandardWeighting: false,
+    verticalWeighting: 'Wk',
     targetAxes: 'all'
   });
 
+  // Integration State (drift correction of vz / sz)
+  // Off by default: plain integration is what the import worker already did, and what earlier versions showed
+  const [driftCorrection, setDriftCorrection] = useState<DriftCorrection>(NO_DRIFT_CORRECTION);
+
   // Theme State - Default to Antigravity
   const [currentThemeId, setCurrentThemeId] = useState<string>('antigravity');
   const theme = useMemo(() => THEMES.find(t => t.id === currentThemeId) || THEMES[0], [currentThemeId]);
@@ -266,39 +648,129 @@ const App: React.FC = () => {
   // UI Toggle State
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [showExportModal, setShowExportModal] = useState(false);
-  const [exportSelection, setExportSelection] = useState({ vibration: true, fft: true, kinematics: true });
+  const [exportSelection, setExportSelection] = useState({ vibration: true, fft: true, spectrogram: true, octave: true, kinematics: true });
   const [isFFTVisible, setIsFFTVisible] = useState(true); // Visibility toggle for FFT Chart
+  const [showFilterOverlay, setShowFilterOverlay] = useState(false); // Filter response drawn over the FFT
+  const [isSpectrogramVisible, setIsSpectrogramVisible] = useState(true);
+  const [spectrogramConfig, setSpectrogramConfig] = useState<SpectrogramConfig>(DEFAULT_SPECTROGRAM_CONFIG);
+  const [octaveSource, setOctaveSource] = useState<OctaveSource>('window');
+  const [elevatorConfig, setElevatorConfig] = useState<ElevatorConfig>(DEFAULT_ELEVATOR_CONFIG);
+  const [spectrumMode, setSpectrumMode] = useState<SpectrumMode>('fft');
+  const [crossChannels, setCrossChannels] = useState<[DataAxis, DataAxis]>(['ax', 'ay']);
+  const [envelopeConfig, setEnvelopeConfig] = useState<EnvelopeConfig>(DEFAULT_ENVELOPE_CONFIG);
+  const [spectrumConfig, setSpectrumConfig] = useState<SpectrumConfig>(DEFAULT_SPECTRUM_CONFIG);
   const chartsContainerRef = useRef<HTMLDivElement>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
 
   // --- DATA PIPELINE ---
-  const handleFileLoad = (processed: ProcessedDataPoint[], name: string) => {
-    // Treat initial load as Raw
-    const raw: RawDataPoint[] = processed.map(p => ({ time: p.time, ax: p.ax, ay: p.ay, az: p.az }));
-    setRawData(raw);
+  const handleFileLoad = (raw: RawChannels, processed: ProcessedChannels, name: string, info: RecordingInfo, resampleTo: number | null = null) => {
+    // Raw keeps gravity and sensor offsets for levelling; the processed arrays have their means removed
+    loadedDataRef.current = processed;
+    setRecordingInfo(info);
+    setImportedData(raw);
+    setSegmentIndex(0);
+    setSelectedRun(0);
+    setBoundaryOverrides(NO_BOUNDARY_OVERRIDES);
+    setResampleRate(resampleTo);
+    setResampleInput(resampleTo ? String(resampleTo) : '');
+    // A known logger gets its saved orientation, anything else starts uncorrected
+    setOrientation(findDevicePreset(info.deviceId)?.orientation ?? DEFAULT_ORIENTATION);
+    setDeviceName(info.deviceId ?? '');
+    // Ask for run details straight away, prefilled from what the file tells us
+    const prefilled = buildMetadata(info, name);
+    setMetadata(prefilled);
+    setMetadataDraft(prefilled);
     setFileName(name);
   };
 
   useEffect(() => {
     if (!rawData) return;
 
-    let dataToProcess = rawData;
+    // Apply DSP if enabled. The ISO weighting is only for the vibration statistics: Wk/Wd cut the
+    // lift's acceleration profile, so velocity, runs, boundaries and kinematics use the unweighted Z.
+    const stageFiltered = filterConfig.enabled ? applyFilterStages(rawData, fs, filterConfig) : rawData;
+    const dataToProcess = filterConfig.enabled ? applyWeightings(stageFiltered, fs, filterConfig) : stageFiltered;
+
+    // Integrate (skipped when the worker already did it for this exact data; it never corrects drift).
+    // Repair, resampling and orientation hand the imported object through when they change nothing.
+    const loaded = loadedDataRef.current;
+    const processed = loaded && dataToProcess === rawData && rawData === importedData && driftCorrection.mode === 'none'
+      ? loaded
+      : processVibrationData(dataToProcess, fs, driftCorrection, stageFiltered.az);
+    setFinalProcessedData(processed);
 
-    // Apply DSP if enabled
-    if (filterConfig.enabled) {
-      dataToProcess = applyFilters(rawData, SAMPLE_RATE, filterConfig);
-    }
+    // Split into runs (trips between stops), each with its own ISO Boundaries and Stats
+    setRuns(detectRuns(processed, fs));
 
-    // Integrate
-    const processed = processVibrationData(dataToProcess, SAMPLE_RATE);
-    setFinalProcessedData(processed);
+  }, [rawData, importedData, filterConfig, driftCorrection, fs]);
 
-    // Calculate ISO Boundaries and Stats
-    const bounds = calculateLiftBoundaries(processed);
+  // Runs with manually set boundaries, re-evaluated on their own segment
+  const evaluatedRuns = useMemo(() => runs.map(run => {
+    const match = findRunOverride(run, boundaryOverrides.runs);
+    if (match < 0 || !finalProcessedData) return run;
+    const manual = boundaryOverrides.runs[match].boundaries;
+    const { time } = finalProcessedData;
+    const slice = sliceChannels(finalProcessedData, findTimeIndex(time, run.start), findTimeIndex(time, run.end, true));
+    return { ...run, boundaries: manual, isoStats: calculateIsoStats(slice, manual), kinematics: calculateKinematics(slice, manual, fs) };
+  }), [runs, boundaryOverrides, finalProcessedData, fs]);
+
+  // Run the manual boundaries apply to (undefined = whole recording)
+  const overrideRun = selectedRun !== null ? runs[selectedRun] : undefined;
+
+  // Boundaries as detected, kept for reset
+  const autoBoundaries = useMemo(() => {
+    if (!finalProcessedData) return null;
+    const run = selectedRun !== null ? runs[selectedRun] : undefined;
+    return run ? run.boundaries : calculateLiftBoundaries(finalProcessedData);
+  }, [finalProcessedData, runs, selectedRun]);
+
+  // ISO Boundaries and Stats of the selected run, or of the whole recording
+  useEffect(() => {
+    if (!finalProcessedData || !autoBoundaries) return;
+    const run = selectedRun !== null ? evaluatedRuns[selectedRun] : undefined;
+    if (run) {
+      setBoundaries(run.boundaries);
+      setIsoStats(run.isoStats);
+      setKinematics(run.kinematics);
+      return;
+    }
+    const bounds = boundaryOverrides.all ?? autoBoundaries;
     setBoundaries(bounds);
-    const stats = calculateIsoStats(processed, bounds);
+    const stats = calculateIsoStats(finalProcessedData, bounds);
     setIsoStats(stats);
+    setKinematics(calculateKinematics(finalProcessedData, bounds, fs));
+  }, [finalProcessedData, evaluatedRuns, selectedRun, autoBoundaries, boundaryOverrides.all, fs]);
 
-  }, [rawData, filterConfig]);
+  useEffect(() => {
+    if (boundaries) setLimDraft([boundaries.t0, boundaries.t1, boundaries.t2, boundaries.t3].map(v => v.toFixed(2)));
+  }, [boundaries]);
+
+  // Manual Lim 0-3 (dragged or typed); each boundary stays between its neighbours
+  const setManualBoundary = (lim: number, value: number) => {
+    if (!boundaries || !isFinite(value)) return;
+    const times = [boundaries.t0, boundaries.t1, boundaries.t2, boundaries.t3];
+    times[lim] = Math.min(Math.max(value, lim > 0 ? times[lim - 1] : -Infinity), lim < 3 ? times[lim + 1] : Infinity);
+    const [t0, t1, t2, t3] = times;
+    const manual: ElevatorBoundaries = { t0, t1, t2, t3, isValid: true, isManual: true };
+    setBoundaryOverrides(prev => overrideRun
+      ? { ...prev, runs: [...withoutRunOverride(prev.runs, overrideRun), { start: overrideRun.start, end: overrideRun.end, boundaries: manual }] }
+      : { ...prev, all: manual });
+  };
+
+  const resetBoundaries = () => setBoundaryOverrides(prev => overrideRun
+    ? { ...prev, runs: withoutRunOverride(prev.runs, overrideRun) }
+    : { runs: prev.runs });
+
+  // Typed times apply on Enter or leaving the field, and only when changed
+  const commitLimDraft = (lim: number) => {
+    if (!boundaries) return;
+    const current = [boundaries.t0, boundaries.t1, boundaries.t2, boundaries.t3][lim];
+    if (limDraft[lim] !== current.toFixed(2)) setManualBoundary(lim, parseFloat(limDraft[lim]));
+  };
+
+  // "Run 2 · Up 12.0 m"
+  const runLabel = (run: LiftRun, i: number) =>
+    `${t.run} ${i + 1} · ${run.direction === 'up' ? t.runUp : t.runDown} ${run.distance.toFixed(1)} m`;
 
   useEffect(() => {
     if (finalProcessedData) {
@@ -310,10 +782,10 @@ const App: React.FC = () => {
 
   // --- COMPUTED DATA ---
   const currentWindowData = useMemo(() => {
-    if (!finalProcessedData) return [];
-    const startIndex = Math.floor(windowStart * SAMPLE_RATE);
-    const endIndex = Math.floor((windowStart + windowSize) * SAMPLE_RATE);
-    return finalProcessedData.slice(startIndex, Math.min(endIndex, finalProcessedData.length));
+    if (!finalProcessedData) return null;
+    // By time, not index: kept gaps and cut segments do not start at 0 s with even spacing
+    const { time } = finalProcessedData;
+    return sliceChannels(finalProcessedData, findTimeIndex(time, windowStart), findTimeIndex(time, windowStart + windowSize, true));
   }, [finalProcessedData, windowStart, windowSize]);
 
   // Determine which global stats to show based on axis
@@ -337,39 +809,125 @@ const App: React.FC = () => {
   // Construct Visual Boundaries for Chart
   const { isoVerticalLines, isoHighlightAreas } = useMemo(() => {
     if (!showIsoBoundaries) return { isoVerticalLines: [], isoHighlightAreas: [] };
-    if (!boundaries || !boundaries.isValid) return { isoVerticalLines: [], isoHighlightAreas: [] };
+    // Without a plateau the 40%/60% estimates are still drawn, so they can be dragged into place
+    if (!boundaries || boundaries.t3 <= boundaries.t0) return { isoVerticalLines: [], isoHighlightAreas: [] };
     
+    // Lines moved away from the detected position are labelled as manual, Lim 1/2 without a plateau as estimates
+    const auto = autoBoundaries ? [autoBoundaries.t0, autoBoundaries.t1, autoBoundaries.t2, autoBoundaries.t3] : [];
+    const label = (lim: number, x: number) => {
+      if (boundaries.isManual && x !== auto[lim]) return `Lim ${lim} (${t.boundaryManual})`;
+      if (!boundaries.isValid && (lim === 1 || lim === 2)) return `Lim ${lim} (${t.boundaryEstimate})`;
+      return `Lim ${lim}`;
+    };
     const lines = [
-      { x: boundaries.t0, color: '#22c55e', label: 'Lim 0', dash: '3 3' }, // Green Dash
-      { x: boundaries.t1, color: '#3b82f6', label: 'Lim 1' }, // Blue Solid
-      { x: boundaries.t2, color: '#3b82f6', label: 'Lim 2' }, // Blue Solid
-      { x: boundaries.t3, color: '#ef4444', label: 'Lim 3', dash: '3 3' }, // Red Dash
+      { x: boundaries.t0, color: '#22c55e', label: label(0, boundaries.t0), dash: '3 3', draggable: true }, // Green Dash
+      { x: boundaries.t1, color: '#3b82f6', label: label(1, boundaries.t1), draggable: true }, // Blue Solid
+      { x: boundaries.t2, color: '#3b82f6', label: label(2, boundaries.t2), draggable: true }, // Blue Solid
+      { x: boundaries.t3, color: '#ef4444', label: label(3, boundaries.t3), dash: '3 3', draggable: true }, // Red Dash
     ];
     
-    const areas = [
+    const areas = boundaries.isValid ? [
       { x1: boundaries.t1, x2: boundaries.t2, color: '#a855f7' } // Purple area for const vel
-    ];
+    ] : [];
 
     return { isoVerticalLines: lines, isoHighlightAreas: areas };
-  }, [boundaries, showIsoBoundaries]);
+  }, [boundaries, autoBoundaries, showIsoBoundaries, t]);
 
-  const { fftData, windowStats, peakFreq } = useMemo(() => {
-    if (currentWindowData.length === 0) return { fftData: [], windowStats: null, peakFreq: null };
+  const { fftSpectrum, windowStats, peakFreq } = useMemo(() => {
+    if (!currentWindowData || currentWindowData.time.length === 0) return { fftSpectrum: null, windowStats: null, peakFreq: null };
 
-    const series = currentWindowData.map(d => d[accelAxis]);
-    const fft = calculateFFT(series, SAMPLE_RATE);
+    const series = currentWindowData[accelAxis];
+    const spectrum = calculateSpectrum(series, fs, spectrumConfig);
     const stats = calculateStats(currentWindowData, accelAxis);
     
     let maxMag = 0, pFreq = 0;
-    fft.forEach(f => {
+    spectrum.data.forEach(f => {
       if(f.magnitude > maxMag) {
         maxMag = f.magnitude;
         pFreq = f.frequency;
       }
     });
 
-    return { fftData: fft, windowStats: stats, peakFreq: { freq: pFreq, mag: maxMag } };
-  }, [currentWindowData, accelAxis]);
+    return { fftSpectrum: spectrum, windowStats: stats, peakFreq: { freq: pFreq, mag: maxMag } };
+  }, [currentWindowData, accelAxis, fs, spectrumConfig]);
+
+  // Car speed for component frequencies: entered, or measured over the window
+  const windowSpeed = useMemo(() => currentWindowData ? meanSpeed(currentWindowData.vz) : 0, [currentWindowData]);
+  const carSpeed = elevatorConfig.carSpeed ?? windowSpeed;
+
+  // Envelope spectrum of the same window, with the roller fault frequencies at the car's speed
+  const { envelopeSpectrum, envelopePeak, faultMarkers } = useMemo(() => {
+    if (spectrumMode !== 'envelope' || !currentWindowData || currentWindowData.time.length === 0) {
+      return { envelopeSpectrum: null, envelopePeak: null, faultMarkers: [] };
+    }
+    const spectrum = calculateEnvelopeSpectrum(currentWindowData[accelAxis], fs, envelopeConfig, spectrumConfig);
+    const peak = spectrum.data.reduce<{ freq: number; mag: number } | null>(
+      (best, f) => !best || f.magnitude > best.mag ? { freq: f.frequency, mag: f.magnitude } : best, null);
+    return {
+      envelopeSpectrum: spectrum,
+      envelopePeak: peak,
+      faultMarkers: rollerFaultFrequencies(envelopeConfig, elevatorConfig, carSpeed)
+    };
+  }, [spectrumMode, currentWindowData, accelAxis, fs, envelopeConfig, spectrumConfig, elevatorConfig, carSpeed]);
+
+  // Cross-spectrum and coherence between two channels of the same window
+  const { crossSpectrum, crossPeak } = useMemo(() => {
+    if (spectrumMode !== 'cross' || !currentWindowData || currentWindowData.time.length === 0) {
+      return { crossSpectrum: null, crossPeak: null };
+    }
+    const spectrum = calculateCrossSpectrum(currentWindowData[crossChannels[0]], currentWindowData[crossChannels[1]], fs, spectrumConfig);
+    const peak = spectrum.data.reduce<{ freq: number; mag: number } | null>(
+      (best, f) => !best || f.magnitude > best.mag ? { freq: f.frequency, mag: f.magnitude } : best, null);
+    return { crossSpectrum: spectrum, crossPeak: peak };
+  }, [spectrumMode, currentWindowData, crossChannels, fs, spectrumConfig]);
+
+  const shownSpectrum: SpectrumResult | null =
+    spectrumMode === 'envelope' ? envelopeSpectrum : spectrumMode === 'fft' ? fftSpectrum : null;
+  const spectrumInfo = spectrumMode === 'cross' ? crossSpectrum : shownSpectrum;
+
+  // Peaks of the shown spectrum, grouped into harmonic families and mapped to elevator components
+  const components = useMemo(() => componentFrequencies(elevatorConfig, carSpeed), [elevatorConfig, carSpeed]);
+  const identifiedPeaks = useMemo(
+    () => shownSpectrum ? identifyPeaks(shownSpectrum, components, spectrumConfig.scaling === 'psd').peaks : [],
+    [shownSpectrum, components, spectrumConfig.scaling]
+  );
+  const peakLabel = (p: SpectralPeak) => p.match
+    ? `${t.componentNames[p.match.component]} ${p.match.harmonic}×`
+    : p.family !== null ? `F${p.family + 1}·${p.order}` : '';
+  const axisUnit = (axis: DataAxis) => axis === 'vz' ? 'm/s' : axis === 'sz' ? 'm' : axis === 'jz' ? 'm/s³' : 'Gal';
+  const spectrumBaseUnit = axisUnit(accelAxis);
+  const spectrumUnit = spectrumConfig.scaling === 'psd'
+    ? `${spectrumBaseUnit}²/Hz`
+    : spectrumBaseUnit === 'Gal' ? 'Gals' : spectrumBaseUnit;
+  const [crossUnitA, crossUnitB] = crossChannels.map(axisUnit);
+  const crossUnit = crossUnitA === crossUnitB
+    ? (spectrumConfig.scaling === 'psd' ? `${crossUnitA}²/Hz` : crossUnitA === 'Gal' ? 'Gals' : crossUnitA)
+    : (spectrumConfig.scaling === 'psd' ? `${crossUnitA}·${crossUnitB}/Hz` : `√(${crossUnitA}·${crossUnitB})`);
+
+  // Spectrogram of the whole processed recording on the selected axis
+  const spectrogram = useMemo(() => {
+    if (!finalProcessedData || !isSpectrogramVisible || !exportSelection.spectrogram) return null;
+    return calculateSpectrogram(finalProcessedData[accelAxis], finalProcessedData.time, fs, spectrogramConfig);
+  }, [finalProcessedData, accelAxis, fs, spectrogramConfig, isSpectrogramVisible, exportSelection.spectrogram]);
+
+  // 1/3-octave band RMS of all three axes over the window or the constant-velocity segment
+  const { octaveLevels, octaveRange } = useMemo(() => {
+    if (!finalProcessedData || !exportSelection.octave) return { octaveLevels: [], octaveRange: null };
+    const useConstVel = octaveSource === 'constVel' && !!boundaries?.isValid;
+    const range: [number, number] = useConstVel
+      ? [boundaries!.t1, boundaries!.t2]
+      : [windowStart, windowStart + windowSize];
+    return { octaveLevels: calculateThirdOctave(finalProcessedData, fs, range[0], range[1]), octaveRange: range };
+  }, [finalProcessedData, fs, exportSelection.octave, octaveSource, boundaries, windowStart, windowSize]);
+
+  // Filter chain response on the axis shown in the FFT (velocity / displacement derive from Z)
+  const { filterResponse, cutoffs } = useMemo(() => {
+    const axis = accelAxis === 'ax' ? 'x' : accelAxis === 'ay' ? 'y' : 'z';
+    return {
+      filterResponse: calculateFilterResponse(filterConfig, fs, axis),
+      cutoffs: filterCutoffs(filterConfig, fs, axis)
+    };
+  }, [filterConfig, fs, accelAxis]);
 
   // --- HANDLERS ---
   const handleRunAI = async () => {
@@ -379,7 +937,8 @@ const App: React.FC = () => {
       { ...windowStats, axis: accelAxis }, 
       peakFreq,
       userApiKey,
-      userModelName
+      userModelName,
+      metadata
     );
     setAiResult(result);
     setIsAnalyzing(false);
@@ -387,12 +946,34 @@ const App: React.FC = () => {
 
   const handleChartClick = (clickedTime: number) => {
     if (!finalProcessedData) return;
-    const maxStart = finalProcessedData[finalProcessedData.length - 1].time - windowSize;
+    const maxStart = finalProcessedData.time[finalProcessedData.time.length - 1] - windowSize;
     let newStart = clickedTime - (windowSize / 2);
     if (newStart < 0) newStart = 0;
     if (newStart > maxStart) newStart = maxStart;
     setWindowStart(newStart);
   };
+
+  // Changing the repair can shorten the recording, so start the window and view over
+  const handleGapRepairChange = (mode: GapRepairMode, segment: number) => {
+    setGapRepairMode(mode);
+    setSegmentIndex(segment);
+    setWindowStart(0);
+    setViewDomain(null);
+  };
+  
+  const updateAxisMap = (axis: SensorAxis, value: string) => {
+    // value is "+x" / "-z" etc.
+    setOrientation({
+      ...orientation,
+      remap: { ...orientation.remap, [axis]: { from: value.slice(1) as SensorAxis, sign: value[0] === '-' ? -1 : 1 } }
+    });
+  };
+
+  const handleSavePreset = () => {
+    const deviceId = deviceName.trim();
+    if (!deviceId) return;
+    setDevicePresets(saveDevicePreset({ deviceId, orientation }));
+  };
   
   const handleZoom = (left: number, right: number) => {
     if (left === right) return;
@@ -405,6 +986,7 @@ const App: React.FC = () => {
   
   const handleResetLayout = () => {
     setIsFFTVisible(true);
+    setIsSpectrogramVisible(true);
     resetView();
   };
 
@@ -421,9 +1003,9 @@ const App: React.FC = () => {
   const applyIsoPreset = () => {
     setFilterConfig({
       enabled: true,
-      highPassFreq: 0,
-      lowPassFreq: 10,
+      stages: [{ ...createFilterStage('lowpass'), order: 2, freq: 10 }],
       isStandardWeighting: true,
+      verticalWeighting: 'Wk',
       targetAxes: 'z-only'
     });
   };
@@ -431,15 +1013,32 @@ const App: React.FC = () => {
   const resetFilters = () => {
     setFilterConfig({
       enabled: false,
-      highPassFreq: 0,
-      lowPassFreq: 30,
+      stages: [{ ...createFilterStage('lowpass'), order: 2, freq: 30 }],
       isStandardWeighting: false,
+      verticalWeighting: 'Wk',
       targetAxes: 'all'
     });
   };
 
+  const updateStage = (index: number, stage: FilterStage) =>
+    setFilterConfig({ ...filterConfig, stages: filterConfig.stages.map((s, i) => i === index ? stage : s) });
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= filterConfig.stages.length) return;
+    const stages = [...filterConfig.stages];
+    [stages[index], stages[target]] = [stages[target], stages[index]];
+    setFilterConfig({ ...filterConfig, stages });
+  };
+
+  const removeStage = (index: number) =>
+    setFilterConfig({ ...filterConfig, stages: filterConfig.stages.filter((_, i) => i !== index) });
+
+  const addStage = () =>
+    setFilterConfig({ ...filterConfig, stages: [...filterConfig.stages, createFilterStage('lowpass')] });
+
   // --- TOOLBAR HANDLERS ---
-  const maxTime = finalProcessedData ? finalProcessedData[finalProcessedData.length - 1].time : 0;
+  const maxTime = finalProcessedData ? finalProcessedData.time[finalProcessedData.time.length - 1] : 0;
 
   const handleZoomX = (direction: 'in' | 'out') => {
     const start = viewDomain ? viewDomain[0] : 0;
@@ -568,6 +1167,121 @@ const App: React.FC = () => {
     }
   };
 
+  // Session Handlers (.vibra.json)
+  const handleSaveSession = async () => {
+    if (!importedData || !recordingInfo) return;
+    const settings: SessionSettings = {
+      lang,
+      themeId: currentThemeId,
+      gapRepairMode,
+      segmentIndex,
+      orientation,
+      deviceName,
+      filterConfig,
+      driftCorrection,
+      resampleRate,
+      accelAxis,
+      intAxis,
+      selectedRun,
+      boundaryOverrides,
+      windowStart,
+      windowSize,
+      viewDomain,
+      yScale: { accelMin: yMinAccel, accelMax: yMaxAccel, intMin: yMinInt, intMax: yMaxInt },
+      chartHeight,
+      showIsoBoundaries,
+      isFFTVisible,
+      showFilterOverlay,
+      spectrumMode,
+      crossChannels,
+      envelopeConfig,
+      spectrumConfig,
+      isSpectrogramVisible,
+      spectrogramConfig,
+      octaveSource,
+      elevatorConfig,
+      refLineLevel
+    };
+    try {
+      const session = await createSession(fileName, recordingInfo, metadata, importedData, settings, { boundaries, isoStats, kinematics, aiResult });
+      const url = URL.createObjectURL(new Blob([JSON.stringify(session)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = sessionFileName(fileName);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Session save failed", e);
+      alert("Could not save session.");
+    }
+  };
+
+  const handleExportOctave = () => {
+    if (!octaveRange) return;
+    const header = `# ${fileName}, ${octaveRange[0].toFixed(3)}-${octaveRange[1].toFixed(3)} s, IEC 61260-1 1/3-octave\n`;
+    const url = URL.createObjectURL(new Blob([header + thirdOctaveCsv(octaveLevels)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName.replace(/\.[^.]+$/, '')}_third_octave.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Restore data and every analysis setting; results are recomputed from them
+  const handleSessionLoad = (session: SessionFile, data: RawChannels) => {
+    const s = session.settings;
+    loadedDataRef.current = null;
+    setRecordingInfo(session.recording);
+    setImportedData(data);
+    setFileName(session.fileName);
+    setMetadata(session.metadata);
+    setLang(s.lang);
+    setCurrentThemeId(s.themeId);
+    setGapRepairMode(s.gapRepairMode);
+    setSegmentIndex(s.segmentIndex);
+    setResampleRate(s.resampleRate);
+    setResampleInput(s.resampleRate ? String(s.resampleRate) : '');
+    setOrientation(s.orientation);
+    setDeviceName(s.deviceName);
+    setFilterConfig(s.filterConfig);
+    setDriftCorrection(s.driftCorrection);
+    setAccelAxis(s.accelAxis);
+    setIntAxis(s.intAxis);
+    setSelectedRun(s.selectedRun);
+    setBoundaryOverrides(s.boundaryOverrides);
+    setWindowStart(s.windowStart);
+    setWindowSize(s.windowSize);
+    setViewDomain(s.viewDomain);
+    setYMinAccel(s.yScale.accelMin);
+    setYMaxAccel(s.yScale.accelMax);
+    setYMinInt(s.yScale.intMin);
+    setYMaxInt(s.yScale.intMax);
+    setChartHeight(s.chartHeight);
+    setShowIsoBoundaries(s.showIsoBoundaries);
+    setIsFFTVisible(s.isFFTVisible);
+    setShowFilterOverlay(s.showFilterOverlay);
+    setSpectrumMode(s.spectrumMode);
+    setCrossChannels(s.crossChannels);
+    setEnvelopeConfig(s.envelopeConfig);
+    setSpectrumConfig(s.spectrumConfig);
+    setIsSpectrogramVisible(s.isSpectrogramVisible);
+    setSpectrogramConfig(s.spectrogramConfig);
+    setOctaveSource(s.octaveSource);
+    setElevatorConfig(s.elevatorConfig);
+    setRefLineLevel(s.refLineLevel);
+    setAiResult(session.results.aiResult);
+  };
+
+  const handleOpenSession = async (file: File) => {
+    try {
+      const { session, data } = await readSession(await file.text());
+      handleSessionLoad(session, data);
+    } catch (e) {
+      console.error("Session open failed", e);
+      alert(e instanceof Error ? e.message : "Could not open session.");
+    }
+  };
+
   if (!finalProcessedData) {
     return (
       <div className={`h-screen w-screen ${theme.bgApp} flex flex-col relative overflow-hidden`}>
@@ -576,7 +1290,7 @@ const App: React.FC = () => {
             {lang === 'zh' ? 'EN' : '中文'}
           </button>
         </div>
-        <FileUpload onDataLoaded={handleFileLoad} />
+        <FileUpload onDataLoaded={handleFileLoad} onSessionLoaded={handleSessionLoad} />
         <div className="absolute bottom-8 text-center w-full text-gray-500 text-xs px-4">
            <p className="mb-1">{t.dragDrop}</p>
            <p className="mb-3">{t.systemInfo}</p>
@@ -586,6 +1300,14 @@ const App: React.FC = () => {
     );
   }
 
+  const metadataSummary = [
+    metadata.elevatorId,
+    metadata.direction === 'up' ? t.mdUp : metadata.direction === 'down' ? t.mdDown : '',
+    metadata.startFloor || metadata.stopFloor ? `${metadata.startFloor || '?'}→${metadata.stopFloor || '?'}` : '',
+    metadata.ratedSpeed !== null ? `${metadata.ratedSpeed} m/s` : '',
+    metadata.loadKg !== null ? `${metadata.loadKg} kg` : ''
+  ].filter(Boolean).join(' · ');
+
   const currentViewStart = viewDomain ? viewDomain[0] : 0;
   const currentViewEnd = viewDomain ? viewDomain[1] : maxTime;
 
@@ -608,9 +1330,71 @@ const App: React.FC = () => {
             </h1>
             <div className="h-4 w-px bg-gray-600"></div>
             <span className={`text-sm ${theme.textSecondary} font-mono`}>{fileName}</span>
+            <button
+              onClick={() => setMetadataDraft(metadata)}
+              title={t.mdEdit}
+              className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${theme.border} ${hasMetadata(metadata) ? theme.textPrimary : theme.textSecondary} hover:bg-white/10`}
+            >
+              {metadataSummary || `+ ${t.mdAdd}`}
+            </button>
+            {sampleRate && (
+              <span
+                className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${
+                  sampleRate.source === 'default' || sampleRate.isJittery
+                    ? 'border-yellow-500/50 text-yellow-500 bg-yellow-500/10'
+                    : `${theme.border} ${theme.textSecondary}`
+                }`}
+                title={[
+                  sampleRate.source === 'timeColumn' ? t.fsFromTime : sampleRate.source === 'header' ? t.fsFromHeader : sampleRate.source === 'manual' ? t.fsManual : t.fsDefault,
+                  sampleRate.isJittery ? `${t.fsJitter}: ${(sampleRate.jitter * 100).toFixed(1)}%` : ''
+                ].filter(Boolean).join('\n')}
+              >
+                fs {fs.toFixed(fs % 1 === 0 ? 0 : 1)} Hz{fs !== recordedFs ? ` ← ${recordedFs.toFixed(recordedFs % 1 === 0 ? 0 : 1)}` : ''}{sampleRate.source === 'default' || sampleRate.isJittery ? ' ⚠' : ''}
+              </span>
+            )}
+            {sourceUnit && (
+              <span
+                className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${theme.border} ${theme.textSecondary}`}
+                title={sourceUnit.source === 'default' ? t.unitDefault : t.unitConverted}
+              >
+                {ACCEL_UNIT_LABELS[sourceUnit.unit]}{sourceUnit.unit !== 'gal' ? ' → Gal' : ''}
+              </span>
+            )}
+            {recordingInfo && recordingInfo.issues.length > 0 && (
+              <span
+                className="text-[10px] font-mono px-1.5 py-0.5 rounded border border-yellow-500/50 text-yellow-500 bg-yellow-500/10 cursor-help"
+                title={recordingInfo.issues.map(formatIssue).join('\n')}
+              >
+                ⚠ {recordingInfo.issues.length} {t.importWarnings}
+              </span>
+            )}
           </div>
           
           <div className="flex items-center gap-4">
+            <button
+               onClick={() => sessionInputRef.current?.click()}
+               className={`flex items-center gap-2 px-3 py-1.5 rounded text-xs font-bold border ${theme.border} hover:bg-white/10`}
+            >
+               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 19a2 2 0 01-2-2V7a2 2 0 012-2h4l2 2h4a2 2 0 012 2v1M5 19h14a2 2 0 002-2v-5a2 2 0 00-2-2H9a2 2 0 00-2 2v5a2 2 0 01-2 2z" /></svg>
+               {t.openSession}
+            </button>
+            <input
+              type="file"
+              ref={sessionInputRef}
+              accept=".json"
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files?.[0]) handleOpenSession(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+            <button
+               onClick={handleSaveSession}
+               className={`flex items-center gap-2 px-3 py-1.5 rounded text-xs font-bold border ${theme.border} hover:bg-white/10`}
+            >
+               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" /></svg>
+               {t.saveSession}
+            </button>
             <button 
                onClick={() => setShowExportModal(true)}
                className={`flex items-center gap-2 px-3 py-1.5 rounded text-xs font-bold border ${theme.border} hover:bg-white/10`}
@@ -638,7 +1422,7 @@ const App: React.FC = () => {
             </div>
             <div className="h-4 w-px bg-gray-600"></div>
             <button 
-              onClick={() => { setRawData(null); setFinalProcessedData(null); }}
+              onClick={() => { setImportedData(null); setFinalProcessedData(null); setRecordingInfo(null); setMetadata(EMPTY_METADATA); loadedDataRef.current = null; }}
               className={`text-sm ${theme.textSecondary} hover:${theme.textPrimary} transition-colors`}
             >
               {t.close}
@@ -669,6 +1453,22 @@ const App: React.FC = () => {
                  />
                  <span className="text-sm">{t.fft}</span>
                </label>
+               <label className="flex items-center gap-2 cursor-pointer">
+                 <input 
+                   type="checkbox" 
+                   checked={exportSelection.spectrogram} 
+                   onChange={e => setExportSelection({...exportSelection, spectrogram: e.target.checked})}
+                 />
+                 <span className="text-sm">{t.spectrogram}</span>
+               </label>
+               <label className="flex items-center gap-2 cursor-pointer">
+                 <input 
+                   type="checkbox" 
+                   checked={exportSelection.octave} 
+                   onChange={e => setExportSelection({...exportSelection, octave: e.target.checked})}
+                 />
+                 <span className="text-sm">{t.octaveBands}</span>
+               </label>
                <label className="flex items-center gap-2 cursor-pointer">
                  <input 
                    type="checkbox" 
@@ -687,6 +1487,135 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* --- METADATA MODAL --- */}
+      {metadataDraft && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm print:hidden">
+          <div className={`${theme.bgPanel} border ${theme.border} rounded-xl shadow-2xl p-6 w-[32rem] max-w-[95vw]`}>
+            <h3 className="text-lg font-bold mb-1">{t.mdTitle}</h3>
+            <p className={`text-[10px] ${theme.textSecondary} mb-4`}>{fileName} · {t.mdPrefilled}</p>
+            <div className="grid grid-cols-2 gap-3 mb-6">
+                <label className="text-xs space-y-1">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdElevatorId}</span>
+                  <input
+                    type="text"
+                    value={metadataDraft.elevatorId}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, elevatorId: e.target.value })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </label>
+                <label className="text-xs space-y-1">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdDate}</span>
+                  <input
+                    type="date"
+                    value={metadataDraft.date}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, date: e.target.value })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </label>
+                <label className="text-xs space-y-1 col-span-2">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdSite}</span>
+                  <input
+                    type="text"
+                    value={metadataDraft.site}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, site: e.target.value })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </label>
+                <label className="text-xs space-y-1">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdRatedSpeed}</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={metadataDraft.ratedSpeed ?? ''}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, ratedSpeed: e.target.value === '' ? null : Number(e.target.value) })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </label>
+                <label className="text-xs space-y-1">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdRatedAccel}</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={metadataDraft.ratedAcceleration ?? ''}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, ratedAcceleration: e.target.value === '' ? null : Number(e.target.value) })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </label>
+                <label className="text-xs space-y-1">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdLoad}</span>
+                  <input
+                    type="number"
+                    step="1"
+                    min={0}
+                    value={metadataDraft.loadKg ?? ''}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, loadKg: e.target.value === '' ? null : Number(e.target.value) })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </label>
+                <label className="text-xs space-y-1">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdDirection}</span>
+                  <select
+                    value={metadataDraft.direction}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, direction: e.target.value as RecordingMetadata['direction'] })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  >
+                    <option value="">-</option>
+                    <option value="up">{t.mdUp}</option>
+                    <option value="down">{t.mdDown}</option>
+                  </select>
+                </label>
+                <label className="text-xs space-y-1">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdStartFloor}</span>
+                  <input
+                    type="text"
+                    value={metadataDraft.startFloor}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, startFloor: e.target.value })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </label>
+                <label className="text-xs space-y-1">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdStopFloor}</span>
+                  <input
+                    type="text"
+                    value={metadataDraft.stopFloor}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, stopFloor: e.target.value })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </label>
+                <label className="text-xs space-y-1">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdSensor}</span>
+                  <input
+                    type="text"
+                    value={metadataDraft.sensorSerial}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, sensorSerial: e.target.value })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </label>
+                <label className="text-xs space-y-1">
+                  <span className={`block text-[10px] ${theme.textSecondary}`}>{t.mdTechnician}</span>
+                  <input
+                    type="text"
+                    value={metadataDraft.technician}
+                    onChange={(e) => setMetadataDraft({ ...metadataDraft, technician: e.target.value })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setMetadataDraft(null)} className={`px-4 py-2 rounded text-sm ${theme.textSecondary} hover:text-white`}>{t.cancel}</button>
+              <button
+                onClick={() => { setMetadata(metadataDraft); setMetadataDraft(null); }}
+                className="px-4 py-2 rounded font-bold bg-teal-600 hover:bg-teal-500 text-white"
+              >
+                {t.save}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <main className="flex-1 flex flex-col lg:flex-row min-h-0 overflow-hidden relative">
         {/* --- LEFT SIDEBAR --- */}
         <aside 
@@ -714,7 +1643,61 @@ const App: React.FC = () => {
                   />
                 </label>
               </div>
-              
+
+              {runs.length > 1 && (
+                <select
+                  value={selectedRun ?? ''}
+                  onChange={(e) => setSelectedRun(e.target.value === '' ? null : Number(e.target.value))}
+                  className={`w-full mb-3 p-1 text-xs rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                >
+                  {runs.map((run, i) => (
+                    <option key={i} value={i}>{runLabel(run, i)}</option>
+                  ))}
+                  <option value="">{t.runAll}</option>
+                </select>
+              )}
+
+              {/* Lim 0-3: typed here or dragged on the time charts */}
+              {boundaries && (
+                <div className="mb-4">
+                  <div className="flex justify-between items-center mb-1">
+                    <span className={`text-[10px] font-bold ${theme.textSecondary}`}>
+                      {t.boundaryTimes}
+                      {boundaries.isManual && <span className="ml-1 text-yellow-500">({t.boundaryManual})</span>}
+                    </span>
+                    {boundaries.isManual && (
+                      <button
+                        onClick={resetBoundaries}
+                        className={`text-[10px] px-1.5 py-0.5 rounded border ${theme.border} ${theme.textSecondary} hover:bg-white/10`}
+                      >
+                        {t.boundaryReset}
+                      </button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-4 gap-1">
+                    {limDraft.map((draft, lim) => (
+                      <label key={lim} className="text-[10px]">
+                        <span className={`block ${theme.textSecondary}`}>Lim {lim}</span>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={draft}
+                          title={autoBoundaries ? `${t.boundaryAuto}: ${[autoBoundaries.t0, autoBoundaries.t1, autoBoundaries.t2, autoBoundaries.t3][lim].toFixed(2)} s` : undefined}
+                          onChange={(e) => setLimDraft(limDraft.map((d, i) => i === lim ? e.target.value : d))}
+                          onKeyDown={(e) => { if (e.key === 'Enter') commitLimDraft(lim); }}
+                          onBlur={() => commitLimDraft(lim)}
+                          className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary} font-mono`}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <div className="text-[10px] text-gray-500 mt-1 opacity-80 italic print:hidden">
+                    {t.boundaryHint}
+                    {autoBoundaries && !autoBoundaries.isValid && !boundaries.isManual && ` · ${t.boundaryGuess}`}
+                  </div>
+                </div>
+              )}
+
               {isoStats && (
                 <div className="space-y-4">
                   {/* Const Vel Section (t1-t2) */}
@@ -790,7 +1773,47 @@ const App: React.FC = () => {
                   )}
                 </div>
               )}
-              
+
+              {/* Run Profile (ISO 18738-1 kinematics) */}
+              {kinematics && (
+                <div className="mt-4">
+                  <h4 className={`text-[10px] font-bold ${theme.textSecondary} border-b ${theme.border} mb-2`}>
+                    {t.kinematicSummary}
+                  </h4>
+                  <div className="space-y-1">
+                    {([[t.accelPhase, kinematics.accel], [t.decelPhase, kinematics.decel]] as const).map(([label, phase]) => (
+                      <div key={label} className="flex justify-between text-xs">
+                        <span>{label}</span>
+                        <span className="font-mono" title={`${t.maxAbs} / A95 (Gal)`}>
+                          {phase.max.toFixed(1)} / {phase.a95.toFixed(1)}
+                        </span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-xs font-bold">
+                      <span>{t.maxJerk}</span>
+                      <span className="font-mono">{Math.abs(kinematics.maxJerk.value).toFixed(2)} m/s³</span>
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span>{t.maxVelocity}</span>
+                      <span className="font-mono">{kinematics.maxVelocity.toFixed(3)} m/s</span>
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span>{t.v95}</span>
+                      <span className="font-mono">{kinematics.v95.toFixed(3)} m/s</span>
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span>{t.phaseDurations}</span>
+                      <span className="font-mono">
+                        {kinematics.accel.duration.toFixed(1)} / {kinematics.constVelDuration.toFixed(1)} / {kinematics.decel.duration.toFixed(1)} s
+                      </span>
+                    </div>
+                  </div>
+                  <div className="text-[10px] text-gray-500 mt-2 opacity-80 italic">
+                    {t.maxAbs} / A95 (Gal) · {t.kinematicNote}
+                  </div>
+                </div>
+              )}
+
               <div className="text-[10px] text-gray-500 mt-3 opacity-80 italic">
                   {t.globalStatsNote}
               </div>
@@ -804,15 +1827,25 @@ const App: React.FC = () => {
                     <span className={`w-1.5 h-1.5 rounded-full bg-purple-500`}></span>
                     {t.windowAnalysis}
                   </h3>
-                  {/* Re-enable FFT button if hidden */}
-                  {!isFFTVisible && (
-                    <button 
-                      onClick={() => setIsFFTVisible(true)}
-                      className="text-[10px] px-2 py-1 rounded bg-purple-600 text-white shadow hover:bg-purple-500 transition-colors font-bold"
-                    >
-                      {t.showChart}
-                    </button>
-                  )}
+                  {/* Re-enable FFT / spectrogram buttons if hidden */}
+                  <div className="flex gap-1">
+                    {!isFFTVisible && (
+                      <button 
+                        onClick={() => setIsFFTVisible(true)}
+                        className="text-[10px] px-2 py-1 rounded bg-purple-600 text-white shadow hover:bg-purple-500 transition-colors font-bold"
+                      >
+                        {t.showChart}
+                      </button>
+                    )}
+                    {!isSpectrogramVisible && (
+                      <button 
+                        onClick={() => setIsSpectrogramVisible(true)}
+                        className="text-[10px] px-2 py-1 rounded bg-purple-600 text-white shadow hover:bg-purple-500 transition-colors font-bold"
+                      >
+                        {t.showSpectrogram}
+                      </button>
+                    )}
+                  </div>
                 </div>
                 <div className="space-y-2">
                    <div className={`flex justify-between items-center border-b ${theme.border} pb-1`}>
@@ -872,7 +1905,250 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* 4. DSP (Signal Processing) */}
+            {/* 4. Data Quality (Time Base) */}
+            {qualityReport && (
+              <div className={`${theme.bgCard} rounded-xl p-4 border ${theme.border} shadow-sm`}>
+                <h3 className={`text-xs font-bold ${theme.textSecondary} uppercase flex items-center gap-2 mb-3`}>
+                  <span className={`w-1.5 h-1.5 rounded-full ${qualityReport.gapCount + qualityReport.duplicates + qualityReport.nonMonotonic > 0 ? 'bg-yellow-500' : 'bg-teal-500'}`}></span>
+                  {t.dataQuality}
+                </h3>
+
+                {qualityReport.gapCount + qualityReport.duplicates + qualityReport.nonMonotonic === 0 && !sampleRate?.isJittery ? (
+                  <p className={`text-xs ${theme.textSecondary}`}>{t.dqClean}</p>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="space-y-1">
+                      {qualityReport.gapCount > 0 && (
+                        <>
+                          <div className="flex justify-between text-xs">
+                            <span>{t.dqGaps}</span>
+                            <span className="font-mono text-yellow-500">{qualityReport.gapCount}</span>
+                          </div>
+                          <div className="flex justify-between text-xs">
+                            <span>{t.dqMissing}</span>
+                            <span className="font-mono">{qualityReport.missingSamples}</span>
+                          </div>
+                          <div className="flex justify-between text-xs">
+                            <span>{t.dqLongest}</span>
+                            <span className="font-mono">{(qualityReport.gaps[0].duration * 1000).toFixed(1)} ms @ {qualityReport.gaps[0].time.toFixed(3)}s</span>
+                          </div>
+                        </>
+                      )}
+                      {qualityReport.duplicates > 0 && (
+                        <div className="flex justify-between text-xs">
+                          <span>{t.dqDuplicates}</span>
+                          <span className="font-mono text-yellow-500">{qualityReport.duplicates}</span>
+                        </div>
+                      )}
+                      {qualityReport.nonMonotonic > 0 && (
+                        <div className="flex justify-between text-xs">
+                          <span>{t.dqNonMonotonic}</span>
+                          <span className="font-mono text-yellow-500">{qualityReport.nonMonotonic}</span>
+                        </div>
+                      )}
+                      {sampleRate?.isJittery && (
+                        <div className="flex justify-between text-xs">
+                          <span>{t.fsJitter}</span>
+                          <span className="font-mono text-yellow-500">{(sampleRate.jitter * 100).toFixed(1)}%</span>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex gap-2">
+                      <div className="flex-1">
+                        <label className="text-[10px] text-gray-500 block mb-1">{t.dqRepair}</label>
+                        <select
+                          value={gapRepairMode}
+                          onChange={(e) => handleGapRepairChange(e.target.value as GapRepairMode, 0)}
+                          className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                        >
+                          <option value="interpolate">{t.dqInterpolate}</option>
+                          <option value="split" disabled={qualityReport.segments.length < 2}>{t.dqSplit}</option>
+                          <option value="none">{t.dqNone}</option>
+                        </select>
+                      </div>
+                      {gapRepairMode === 'split' && qualityReport.segments.length > 1 && (
+                        <div className="flex-1">
+                          <label className="text-[10px] text-gray-500 block mb-1">{t.dqSegment}</label>
+                          <select
+                            value={qualityReport.segmentIndex}
+                            onChange={(e) => handleGapRepairChange('split', Number(e.target.value))}
+                            className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                          >
+                            {qualityReport.segments.map((seg, i) => (
+                              <option key={i} value={i}>#{i + 1} {seg.start.toFixed(1)}–{seg.end.toFixed(1)}s</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </div>
+
+                    <div>
+                      <h4 className={`text-[10px] font-bold ${theme.textSecondary} border-b ${theme.border} mb-2`}>
+                        {t.dqFixed}
+                      </h4>
+                      <ul className="space-y-1 text-[10px] font-mono">
+                        {qualityReport.sorted && <li>✓ {t.dqSorted}</li>}
+                        {qualityReport.duplicatesRemoved > 0 && <li>✓ {t.dqDupRemoved}: {qualityReport.duplicatesRemoved}</li>}
+                        {qualityReport.filledSamples > 0 && <li>✓ {t.dqFilled}: {qualityReport.filledSamples}</li>}
+                        {qualityReport.resampled && <li>✓ {t.dqResampled} ({recordedFs.toFixed(recordedFs % 1 === 0 ? 0 : 1)} Hz, {qualityReport.outputSamples})</li>}
+                        {qualityReport.mode === 'none' && qualityReport.gapCount > 0 && <li className="text-yellow-500">⚠ {t.dqNoneWarning}</li>}
+                      </ul>
+                    </div>
+                  </div>
+                )}
+
+                <div className={`mt-3 pt-3 border-t ${theme.border}`}>
+                  <label className="text-[10px] text-gray-500 block mb-1">{t.resample}</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="1"
+                      placeholder={t.resampleOriginal}
+                      value={resampleInput}
+                      onChange={(e) => setResampleInput(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') setResampleRate(Number(resampleInput) > 0 ? Number(resampleInput) : null); }}
+                      className={`flex-1 min-w-0 text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                    />
+                    <button
+                      onClick={() => setResampleRate(Number(resampleInput) > 0 ? Number(resampleInput) : null)}
+                      className={`py-1 px-2 text-[10px] rounded border ${theme.border} hover:bg-white/10`}
+                    >
+                      {t.resampleApply}
+                    </button>
+                    <button
+                      onClick={() => { setResampleRate(null); setResampleInput(''); }}
+                      className={`py-1 px-2 text-[10px] rounded border ${theme.border} hover:bg-white/10`}
+                    >
+                      {t.resampleOriginal}
+                    </button>
+                  </div>
+                  {fs !== recordedFs && (
+                    <p className="text-[10px] font-mono mt-1">✓ {t.resampleActive}: {recordedFs.toFixed(recordedFs % 1 === 0 ? 0 : 1)} → {fs.toFixed(fs % 1 === 0 ? 0 : 3)} Hz</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* 5. Sensor Orientation */}
+            <div className={`${theme.bgCard} rounded-xl p-4 border ${theme.border} shadow-sm`}>
+              <h3 className={`text-xs font-bold ${theme.textSecondary} uppercase flex items-center gap-2 mb-3`}>
+                <span className={`w-1.5 h-1.5 rounded-full bg-orange-500`}></span>
+                {t.orientation}
+              </h3>
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  {(['x', 'y', 'z'] as SensorAxis[]).map(axis => (
+                    <div key={axis} className="flex-1">
+                      <label className="text-[10px] text-gray-500 block mb-1">a{axis} ←</label>
+                      <select
+                        value={`${orientation.remap[axis].sign < 0 ? '-' : '+'}${orientation.remap[axis].from}`}
+                        onChange={(e) => updateAxisMap(axis, e.target.value)}
+                        className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                      >
+                        {['+x', '-x', '+y', '-y', '+z', '-z'].map(v => <option key={v} value={v}>{v.toUpperCase()}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex gap-2 items-end">
+                  <label className="flex-1 flex items-center gap-2 cursor-pointer text-[10px] font-bold pb-1">
+                    <input
+                      type="checkbox"
+                      checked={orientation.levelFromGravity}
+                      onChange={(e) => setOrientation({ ...orientation, levelFromGravity: e.target.checked })}
+                      className="rounded border-gray-600 bg-gray-800"
+                    />
+                    {t.levelGravity}
+                  </label>
+                  <div className="w-20">
+                    <label className="text-[10px] text-gray-500 block mb-1">{t.stationarySec}</label>
+                    <input
+                      type="number"
+                      min={0.1}
+                      step={0.1}
+                      value={orientation.stationarySeconds}
+                      disabled={!orientation.levelFromGravity}
+                      onChange={(e) => setOrientation({ ...orientation, stationarySeconds: Math.max(0.1, Number(e.target.value)) })}
+                      className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary} disabled:opacity-50`}
+                    />
+                  </div>
+                </div>
+
+                {orientationResult?.tiltDeg != null && (
+                  <div className="flex justify-between text-xs">
+                    <span>{t.tilt}</span>
+                    <span className="font-mono">{orientationResult.tiltDeg.toFixed(1)}°</span>
+                  </div>
+                )}
+                {orientationResult?.warning && (
+                  <p className="text-[10px] text-yellow-500">
+                    ⚠ {orientationResult.warning === 'noGravity' ? t.orientNoGravity : orientationResult.warning === 'moving' ? t.orientMoving : t.orientNotPerm}
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setOrientation({ ...UPSIDE_DOWN_ORIENTATION, levelFromGravity: orientation.levelFromGravity, stationarySeconds: orientation.stationarySeconds })}
+                    className={`flex-1 py-1 px-2 text-[10px] rounded border ${theme.border} hover:bg-white/10`}
+                  >
+                    {t.upsideDown}
+                  </button>
+                  <button
+                    onClick={() => setOrientation(DEFAULT_ORIENTATION)}
+                    className={`py-1 px-2 text-[10px] rounded border ${theme.border} hover:bg-white/10`}
+                  >
+                    {t.presetDefault}
+                  </button>
+                </div>
+
+                <div>
+                  <h4 className={`text-[10px] font-bold ${theme.textSecondary} border-b ${theme.border} mb-2`}>
+                    {t.presets}
+                  </h4>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={deviceName}
+                      placeholder={t.devicePlaceholder}
+                      onChange={(e) => setDeviceName(e.target.value)}
+                      className={`flex-1 min-w-0 text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                    />
+                    <button
+                      onClick={handleSavePreset}
+                      disabled={!deviceName.trim()}
+                      title={t.savePreset}
+                      className={`py-1 px-2 text-[10px] rounded border ${theme.border} hover:bg-white/10 disabled:opacity-50`}
+                    >
+                      {t.savePreset}
+                    </button>
+                  </div>
+                  {devicePresets.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {devicePresets.map(preset => (
+                        <li key={preset.deviceId} className="flex justify-between items-center text-xs">
+                          <button
+                            onClick={() => { setOrientation(preset.orientation); setDeviceName(preset.deviceId); }}
+                            className={`font-mono hover:underline ${preset.deviceId === deviceName.trim() ? theme.accent : ''}`}
+                          >
+                            {preset.deviceId}
+                          </button>
+                          <button
+                            onClick={() => setDevicePresets(deleteDevicePreset(preset.deviceId))}
+                            className="text-[10px] text-gray-500 hover:text-red-400"
+                          >
+                            {t.deletePreset}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* 6. DSP (Signal Processing) */}
             <div className={`${theme.bgCard} rounded-xl p-4 border ${theme.border} shadow-sm`}>
               <div className="flex justify-between items-center mb-3">
                 <h3 className={`text-xs font-bold ${theme.textSecondary} uppercase flex items-center gap-2`}>
@@ -891,25 +2167,87 @@ const App: React.FC = () => {
               </div>
               
               <div className={`space-y-3 ${!filterConfig.enabled ? 'opacity-50 pointer-events-none' : ''}`}>
-                <div className="flex gap-2">
-                  <div className="flex-1">
-                    <label className="text-[10px] text-gray-500 block mb-1">{t.highPass}</label>
-                    <input 
-                      type="number" 
-                      value={filterConfig.highPassFreq}
-                      onChange={(e) => setFilterConfig({...filterConfig, highPassFreq: Number(e.target.value)})}
-                      className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
-                    />
-                  </div>
-                  <div className="flex-1">
-                    <label className="text-[10px] text-gray-500 block mb-1">{t.lowPass}</label>
-                    <input 
-                      type="number" 
-                      value={filterConfig.lowPassFreq}
-                      onChange={(e) => setFilterConfig({...filterConfig, lowPassFreq: Number(e.target.value)})}
-                      className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
-                    />
-                  </div>
+                <div className="space-y-2">
+                  <label className="text-[10px] text-gray-500 block">{t.filterStages}</label>
+                  {filterConfig.stages.length === 0 && (
+                    <p className="text-[10px] text-gray-500 italic">{t.noStages}</p>
+                  )}
+                  {filterConfig.stages.map((stage, index) => (
+                    <div key={index} className={`p-2 rounded border ${theme.border} space-y-1 ${!stage.enabled ? 'opacity-50' : ''}`}>
+                      <div className="flex gap-1 items-center">
+                        <input
+                          type="checkbox"
+                          checked={stage.enabled}
+                          onChange={(e) => updateStage(index, { ...stage, enabled: e.target.checked })}
+                          className="rounded border-gray-600 bg-gray-800"
+                        />
+                        <select
+                          value={stage.type}
+                          onChange={(e) => updateStage(index, createFilterStage(e.target.value as FilterStageType, stage))}
+                          className={`flex-1 text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                        >
+                          {(Object.keys(t.stageTypes) as FilterStageType[]).map(type => (
+                            <option key={type} value={type}>{t.stageTypes[type]}</option>
+                          ))}
+                        </select>
+                        <button onClick={() => moveStage(index, -1)} disabled={index === 0} title={t.moveUp} className="px-1 text-xs hover:bg-white/10 rounded disabled:opacity-30">↑</button>
+                        <button onClick={() => moveStage(index, 1)} disabled={index === filterConfig.stages.length - 1} title={t.moveDown} className="px-1 text-xs hover:bg-white/10 rounded disabled:opacity-30">↓</button>
+                        <button onClick={() => removeStage(index)} title={t.removeStage} className="px-1 text-xs hover:bg-red-500/20 text-red-400 rounded">×</button>
+                      </div>
+                      <div className="flex gap-1 items-center">
+                        <span className="text-[10px] text-gray-500 w-14 shrink-0">
+                          {stage.type === 'bandpass' || stage.type === 'bandstop' ? t.stageBand : t.stageFreq}
+                        </span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={stage.freq}
+                          onChange={(e) => updateStage(index, { ...stage, freq: Number(e.target.value) })}
+                          className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                        />
+                        {(stage.type === 'bandpass' || stage.type === 'bandstop') && (
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.1"
+                            value={stage.freqHigh}
+                            onChange={(e) => updateStage(index, { ...stage, freqHigh: Number(e.target.value) })}
+                            className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                          />
+                        )}
+                        {stage.type === 'notch' ? (
+                          <>
+                            <span className="text-[10px] text-gray-500">Q</span>
+                            <input
+                              type="number"
+                              min="0.5"
+                              step="1"
+                              value={stage.q}
+                              onChange={(e) => updateStage(index, { ...stage, q: Number(e.target.value) })}
+                              className={`w-14 text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                            />
+                          </>
+                        ) : (
+                          <select
+                            value={stage.order}
+                            onChange={(e) => updateStage(index, { ...stage, order: Number(e.target.value) as FilterStage['order'] })}
+                            className={`w-14 text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                          >
+                            {[2, 4, 6, 8].map(order => (
+                              <option key={order} value={order}>{order}{t.stageOrder}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <button
+                    onClick={addStage}
+                    className={`w-full py-1 px-2 text-[10px] rounded border border-dashed ${theme.border} hover:bg-white/10`}
+                  >
+                    {t.addStage}
+                  </button>
                 </div>
 
                 <div className="flex gap-2">
@@ -925,6 +2263,30 @@ const App: React.FC = () => {
                      </select>
                   </div>
                 </div>
+
+                <div className="flex gap-2 items-end">
+                  <label className="flex-1 flex items-center gap-2 cursor-pointer text-[10px] text-gray-500 pb-1">
+                    <input
+                      type="checkbox"
+                      checked={filterConfig.isStandardWeighting}
+                      onChange={(e) => setFilterConfig({...filterConfig, isStandardWeighting: e.target.checked})}
+                      className="rounded border-gray-600 bg-gray-800"
+                    />
+                    {t.weighting}
+                  </label>
+                  <div className="w-20">
+                     <label className="text-[10px] text-gray-500 block mb-1">{t.weightingVertical}</label>
+                     <select
+                       value={filterConfig.verticalWeighting}
+                       disabled={!filterConfig.isStandardWeighting}
+                       onChange={(e) => setFilterConfig({...filterConfig, verticalWeighting: e.target.value as 'Wk' | 'Wb'})}
+                       className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                     >
+                       <option value="Wk">Wk</option>
+                       <option value="Wb">Wb</option>
+                     </select>
+                  </div>
+                </div>
                 
                 <div className="flex gap-2 pt-1">
                    <button 
@@ -943,7 +2305,176 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* 5. View / Zoom Control */}
+            {/* 7. Integration / Drift Correction */}
+            <div className={`${theme.bgCard} rounded-xl p-4 border ${theme.border} shadow-sm`}>
+              <h3 className={`text-xs font-bold ${theme.textSecondary} uppercase flex items-center gap-2 mb-3`}>
+                <span className={`w-1.5 h-1.5 rounded-full bg-cyan-500`}></span>
+                {t.integration}
+              </h3>
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="text-[10px] text-gray-500 block mb-1">{t.driftMode}</label>
+                    <select
+                      value={driftCorrection.mode}
+                      onChange={(e) => setDriftCorrection({ ...driftCorrection, mode: e.target.value as DriftCorrectionMode })}
+                      className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                    >
+                      <option value="zeroVelocity">{t.driftZeroVelocity}</option>
+                      <option value="polynomial">{t.driftPolynomial}</option>
+                      <option value="highpass">{t.driftHighpass}</option>
+                      <option value="none">{t.driftNone}</option>
+                    </select>
+                  </div>
+                  {driftCorrection.mode === 'polynomial' && (
+                    <div className="w-20">
+                      <label className="text-[10px] text-gray-500 block mb-1">{t.driftOrder}</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="5"
+                        value={driftCorrection.polynomialOrder}
+                        onChange={(e) => setDriftCorrection({ ...driftCorrection, polynomialOrder: Math.max(1, Math.min(5, Number(e.target.value))) })}
+                        className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                      />
+                    </div>
+                  )}
+                  {driftCorrection.mode === 'highpass' && (
+                    <div className="w-24">
+                      <label className="text-[10px] text-gray-500 block mb-1">{t.driftHighpassFreq}</label>
+                      <input
+                        type="number"
+                        min="0.001"
+                        step="0.005"
+                        value={driftCorrection.highPassFreq}
+                        onChange={(e) => setDriftCorrection({ ...driftCorrection, highPassFreq: Math.max(0, Number(e.target.value)) })}
+                        className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                      />
+                    </div>
+                  )}
+                </div>
+                {driftCorrection.mode === 'highpass' && (
+                  <p className="text-[10px] text-yellow-500">⚠ {t.driftHighpassHint}</p>
+                )}
+
+                {finalProcessedData?.drift && (
+                  <div className="space-y-1">
+                    {finalProcessedData.drift.motionStart !== null && finalProcessedData.drift.motionEnd !== null ? (
+                      <div className="flex justify-between text-xs">
+                        <span>{t.driftRun}</span>
+                        <span className="font-mono">{finalProcessedData.drift.motionStart.toFixed(2)}–{finalProcessedData.drift.motionEnd.toFixed(2)}s</span>
+                      </div>
+                    ) : (
+                      <p className="text-[10px] text-yellow-500">⚠ {t.driftNoRun}</p>
+                    )}
+                    <div className="flex justify-between text-xs">
+                      <span>{t.driftRestVelocity}</span>
+                      <span className="font-mono">
+                        {driftCorrection.mode !== 'none' && <span className="text-gray-500">{(finalProcessedData.drift.restVelocityBefore * 1000).toFixed(1)} → </span>}
+                        {(finalProcessedData.drift.restVelocity * 1000).toFixed(1)} mm/s
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span>{t.driftEndVelocity}</span>
+                      <span className="font-mono">{(finalProcessedData.drift.endVelocity * 1000).toFixed(1)} mm/s</span>
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span>{t.driftTravel}</span>
+                      <span className={`font-mono font-bold ${theme.textPrimary}`}>{finalProcessedData.drift.travel.toFixed(3)} m</span>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* 8. Elevator Configuration (component frequencies) */}
+            <div className={`${theme.bgCard} rounded-xl p-4 border ${theme.border} shadow-sm`}>
+              <h3 className={`text-xs font-bold ${theme.textSecondary} uppercase flex items-center gap-2 mb-3`}>
+                <span className={`w-1.5 h-1.5 rounded-full bg-amber-500`}></span>
+                {t.elevatorConfig}
+              </h3>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-[10px] text-gray-500 block mb-1">{t.carSpeed}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    placeholder={windowSpeed.toFixed(2)}
+                    title={t.carSpeedHint}
+                    value={elevatorConfig.carSpeed ?? ''}
+                    onChange={(e) => setElevatorConfig({ ...elevatorConfig, carSpeed: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] text-gray-500 block mb-1">{t.sheaveDiameter}</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="10"
+                    value={elevatorConfig.sheaveDiameter}
+                    onChange={(e) => setElevatorConfig({ ...elevatorConfig, sheaveDiameter: Math.max(0, Number(e.target.value)) })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] text-gray-500 block mb-1">{t.ropingRatio}</label>
+                  <select
+                    value={elevatorConfig.ropingRatio}
+                    onChange={(e) => setElevatorConfig({ ...elevatorConfig, ropingRatio: Number(e.target.value) })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  >
+                    {[1, 2, 4].map(r => <option key={r} value={r}>{r}:1</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-[10px] text-gray-500 block mb-1">{t.railLength}</label>
+                  <input
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={elevatorConfig.railLength}
+                    onChange={(e) => setElevatorConfig({ ...elevatorConfig, railLength: Math.max(0, Number(e.target.value)) })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] text-gray-500 block mb-1">{t.rollerDiameter}</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="5"
+                    value={elevatorConfig.rollerDiameter}
+                    onChange={(e) => setElevatorConfig({ ...elevatorConfig, rollerDiameter: Math.max(0, Number(e.target.value)) })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] text-gray-500 block mb-1">{t.motorPoles}</label>
+                  <input
+                    type="number"
+                    min="2"
+                    step="2"
+                    value={elevatorConfig.motorPoles}
+                    onChange={(e) => setElevatorConfig({ ...elevatorConfig, motorPoles: Math.max(0, Number(e.target.value)) })}
+                    className={`w-full text-xs p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </div>
+              </div>
+              <p className="text-[10px] text-gray-500 mt-2">{t.carSpeedHint}</p>
+              <div className={`mt-2 pt-2 border-t ${theme.border} text-[10px] space-y-0.5`}>
+                <div className={`${theme.textSecondary} mb-1`}>{t.componentRates} @ {carSpeed.toFixed(2)} m/s</div>
+                {(Object.keys(components) as ElevatorComponent[]).map(c => (
+                  <div key={c} className="flex justify-between">
+                    <span className={theme.textSecondary}>{t.componentNames[c]}</span>
+                    <span className="font-mono">{components[c] > 0 ? `${components[c].toFixed(2)} Hz` : '-'}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* 9. View / Zoom Control */}
              <div className={`${theme.bgCard} rounded-xl p-4 border ${theme.border} shadow-sm`}>
               <div className="flex justify-between items-center mb-3">
                  <h3 className={`text-xs font-bold ${theme.textSecondary} uppercase flex items-center gap-2`}>
@@ -1002,7 +2533,7 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* 6. Chart Height */}
+            {/* 10. Chart Height */}
             <div className={`${theme.bgCard} rounded-xl p-4 border ${theme.border} shadow-sm`}>
               <label className={`text-xs font-bold ${theme.textSecondary} uppercase tracking-wider mb-3 block`}>
                  {t.chartHeight} ({chartHeight}px)
@@ -1014,7 +2545,7 @@ const App: React.FC = () => {
               />
             </div>
 
-             {/* 7. AI Analysis */}
+             {/* 11. AI Analysis */}
              <div className={`${theme.bgCard} rounded-xl p-4 border ${theme.border} shadow-sm`}>
               <button
                 onClick={handleRunAI}
@@ -1066,7 +2597,7 @@ const App: React.FC = () => {
               )}
             </div>
 
-            {/* 8. Creator Info */}
+            {/* 12. Creator Info */}
             <div className="mt-4 text-[10px] text-center text-gray-500 font-mono">
               {t.creator}
             </div>
@@ -1076,6 +2607,29 @@ const App: React.FC = () => {
 
         {/* --- MAIN CHARTS AREA --- */}
         <div ref={chartsContainerRef} className="flex-1 flex flex-col p-6 gap-6 overflow-y-auto h-full min-w-0 print:w-full print:h-auto print:overflow-visible">
+
+            {/* RUN DETAILS (carried into print and saved images) */}
+            {hasMetadata(metadata) && (
+              <div className={`${theme.bgCard} border ${theme.border} rounded-xl px-4 py-2 shadow-sm shrink-0 grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-1 text-[11px]`}>
+                {([
+                  [t.mdElevatorId, metadata.elevatorId],
+                  [t.mdSite, metadata.site],
+                  [t.mdRatedSpeed, metadata.ratedSpeed],
+                  [t.mdRatedAccel, metadata.ratedAcceleration],
+                  [t.mdLoad, metadata.loadKg],
+                  [t.mdDirection, metadata.direction === 'up' ? t.mdUp : metadata.direction === 'down' ? t.mdDown : ''],
+                  [`${t.mdStartFloor} → ${t.mdStopFloor}`, metadata.startFloor || metadata.stopFloor ? `${metadata.startFloor || '?'} → ${metadata.stopFloor || '?'}` : ''],
+                  [t.mdSensor, metadata.sensorSerial],
+                  [t.mdTechnician, metadata.technician],
+                  [t.mdDate, metadata.date]
+                ] as [string, string | number | null][]).filter(([, v]) => v !== '' && v !== null).map(([label, value]) => (
+                  <div key={label} className="flex justify-between gap-2 min-w-0">
+                    <span className={`${theme.textSecondary} truncate`}>{label}</span>
+                    <span className="font-mono truncate">{value}</span>
+                  </div>
+                ))}
+              </div>
+            )}
             
             {/* VIBRATION CHART */}
             {exportSelection.vibration && (
@@ -1087,7 +2641,7 @@ const App: React.FC = () => {
                     {t.vibration}
                     {filterConfig.enabled && (
                       <span className="text-[10px] px-1.5 py-0.5 bg-blue-500/20 text-blue-400 rounded ml-1">
-                        Filtered ({filterConfig.targetAxes === 'z-only' ? 'Z-Only ' : ''}{filterConfig.lowPassFreq}Hz LP)
+                        Filtered ({filterConfig.targetAxes === 'z-only' ? 'Z-Only ' : ''}{filterConfig.stages.filter(st => st.enabled).map(describeFilterStage).join(' + ') || 'No stages'}{filterConfig.isStandardWeighting ? `, ${filterConfig.verticalWeighting}/Wd` : ''})
                       </span>
                     )}
                   </h2>
@@ -1184,6 +2738,7 @@ const App: React.FC = () => {
                   globalStats={currentGlobalStats}
                   referenceLines={refLineLevel ? [refLineLevel, -refLineLevel] : undefined}
                   verticalLines={isoVerticalLines}
+                  onLineDrag={setManualBoundary}
                   highlightAreas={isoHighlightAreas}
                   yDomain={parseDomain(yMinAccel, yMaxAccel)}
                   xDomain={viewDomain || undefined}
@@ -1200,11 +2755,46 @@ const App: React.FC = () => {
             {exportSelection.fft && isFFTVisible && (
             <div className={`${theme.bgCard} border ${theme.border} rounded-xl p-4 shadow-sm flex flex-col shrink-0`} style={{ height: chartHeight }}>
               <div className="flex justify-between items-center mb-4 shrink-0">
-                <h2 className={`text-sm font-bold ${theme.textSecondary} flex items-center gap-2`}>
-                    {t.fft} ({accelAxis.toUpperCase()})
-                </h2>
                 <div className="flex items-center gap-4">
-                  <span className={`text-xs ${theme.textSecondary}`}>{t.dominant}: {peakFreq?.freq.toFixed(2)}Hz</span>
+                  <h2 className={`text-sm font-bold ${theme.textSecondary} flex items-center gap-2`}>
+                      {spectrumMode === 'cross'
+                        ? `${t.spectrumCross} (${crossChannels[0].toUpperCase()} → ${crossChannels[1].toUpperCase()})`
+                        : `${spectrumMode === 'envelope' ? t.spectrumEnvelope : t.fft} (${accelAxis.toUpperCase()})`}
+                  </h2>
+                  <div className={`flex rounded border ${theme.border} p-0.5 print:hidden`}>
+                    {(['fft', 'envelope', 'cross'] as SpectrumMode[]).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setSpectrumMode(mode)}
+                        className={`px-2 py-0.5 text-xs font-bold rounded ${
+                          spectrumMode === mode ? `bg-gray-500/20 ${theme.textPrimary}` : theme.textSecondary
+                        }`}
+                      >
+                        {mode === 'fft' ? t.spectrumFft : mode === 'envelope' ? t.spectrumEnvelope : t.spectrumCross}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-4">
+                  {filterConfig.enabled && spectrumMode === 'fft' && (
+                    <label className={`flex items-center gap-1 text-[10px] cursor-pointer ${theme.textSecondary} print:hidden`}>
+                      <input
+                        type="checkbox"
+                        checked={showFilterOverlay}
+                        onChange={(e) => setShowFilterOverlay(e.target.checked)}
+                        className="rounded border-gray-600 bg-gray-800"
+                      />
+                      {t.overlayResponse}
+                    </label>
+                  )}
+                  <span className={`text-xs ${theme.textSecondary}`}>
+                    {t.dominant}: {(spectrumMode === 'envelope' ? envelopePeak : spectrumMode === 'cross' ? crossPeak : peakFreq)?.freq.toFixed(2)}Hz
+                  </span>
+                  {spectrumInfo && spectrumInfo.segments > 0 && (
+                    <span className={`text-xs font-mono ${theme.textSecondary}`} title={`Δf ${spectrumInfo.binWidth.toPrecision(3)} Hz`}>
+                      RBW {spectrumInfo.rbw.toPrecision(3)} Hz · {spectrumInfo.segments}× {t.spectrumAveraged}
+                    </span>
+                  )}
                   <button 
                     onClick={() => setIsFFTVisible(false)}
                     className={`text-[10px] p-1 rounded hover:bg-red-500/20 hover:text-red-500 transition-colors ${theme.textSecondary}`}
@@ -1216,13 +2806,399 @@ const App: React.FC = () => {
                   </button>
                 </div>
               </div>
+              <div className={`flex flex-wrap items-center gap-3 mb-2 text-[10px] ${theme.textSecondary} print:hidden`}>
+                <label className="flex items-center gap-1">
+                  {t.spectrumWindow}
+                  <select
+                    value={spectrumConfig.window}
+                    onChange={(e) => setSpectrumConfig({ ...spectrumConfig, window: e.target.value as WindowFunction })}
+                    className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                  >
+                    {(['rectangular', 'hann', 'hamming', 'flattop'] as WindowFunction[]).map(w => (
+                      <option key={w} value={w}>{t.windowNames[w]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1">
+                  {t.spectrumSegment}
+                  <select
+                    value={spectrumConfig.segmentLength ?? ''}
+                    onChange={(e) => setSpectrumConfig({ ...spectrumConfig, segmentLength: e.target.value ? Number(e.target.value) : null })}
+                    className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                  >
+                    <option value="">{t.segmentWhole}</option>
+                    {[256, 512, 1024, 2048, 4096, 8192].map(len => (
+                      <option key={len} value={len}>{len} ({(len / fs).toFixed(1)} s)</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1">
+                  {t.spectrumOverlap}
+                  <select
+                    value={spectrumConfig.overlap}
+                    disabled={spectrumConfig.segmentLength === null}
+                    onChange={(e) => setSpectrumConfig({ ...spectrumConfig, overlap: Number(e.target.value) })}
+                    className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary} disabled:opacity-50`}
+                  >
+                    {[0, 0.25, 0.5, 0.75].map(o => (
+                      <option key={o} value={o}>{o * 100}%</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1">
+                  {t.zeroPadding}
+                  <select
+                    value={spectrumConfig.zeroPadding}
+                    onChange={(e) => setSpectrumConfig({ ...spectrumConfig, zeroPadding: Number(e.target.value) })}
+                    className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                  >
+                    {[1, 2, 4, 8].map(z => (
+                      <option key={z} value={z}>{z}×</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1">
+                  {t.spectrumScaling}
+                  <select
+                    value={spectrumConfig.scaling}
+                    onChange={(e) => setSpectrumConfig({ ...spectrumConfig, scaling: e.target.value as SpectrumScaling })}
+                    className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                  >
+                    {(['amplitude', 'psd'] as SpectrumScaling[]).map(sc => (
+                      <option key={sc} value={sc}>{t.scalingNames[sc]}</option>
+                    ))}
+                  </select>
+                </label>
+                <div className="flex items-center gap-1">
+                  {t.freqRange}
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={spectrumConfig.freqMin}
+                    onChange={(e) => setSpectrumConfig({ ...spectrumConfig, freqMin: Math.max(0, Number(e.target.value)) })}
+                    className={`w-14 p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                  –
+                  <input
+                    type="number"
+                    min="0"
+                    placeholder={(fs / 2).toFixed(0)}
+                    value={spectrumConfig.freqMax ?? ''}
+                    onChange={(e) => setSpectrumConfig({ ...spectrumConfig, freqMax: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                    className={`w-14 p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                  />
+                </div>
+              </div>
+              {spectrumMode === 'envelope' && (
+                <div className={`flex flex-wrap items-end gap-3 mb-2 text-[10px] ${theme.textSecondary} print:hidden`}>
+                  <div>
+                    <label className="block mb-0.5">{t.envelopeBand}</label>
+                    <div className="flex items-center gap-1">
+                      <span>{t.envelopeCenter}</span>
+                      <input
+                        type="number"
+                        min="1"
+                        step="5"
+                        value={envelopeConfig.bandCenter}
+                        onChange={(e) => setEnvelopeConfig({ ...envelopeConfig, bandCenter: Math.max(0, Number(e.target.value)) })}
+                        className={`w-14 p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                      />
+                      <span>{t.envelopeWidth}</span>
+                      <input
+                        type="number"
+                        min="1"
+                        step="5"
+                        value={envelopeConfig.bandWidth}
+                        onChange={(e) => setEnvelopeConfig({ ...envelopeConfig, bandWidth: Math.max(0, Number(e.target.value)) })}
+                        className={`w-14 p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                      />
+                      <span className="font-mono">= {envelopeBand(envelopeConfig, fs).map(f => f.toFixed(1)).join('–')}</span>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block mb-0.5">{t.faultHarmonics}</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={envelopeConfig.harmonics}
+                      onChange={(e) => setEnvelopeConfig({ ...envelopeConfig, harmonics: Math.min(10, Math.max(1, Math.round(Number(e.target.value)))) })}
+                      className={`w-12 p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                    />
+                  </div>
+                  <p className="flex-1 min-w-[200px] leading-snug">{t.envelopeNote}</p>
+                </div>
+              )}
+              {spectrumMode === 'cross' && (
+                <div className={`flex flex-wrap items-center gap-3 mb-2 text-[10px] ${theme.textSecondary} print:hidden`}>
+                  <div className="flex items-center gap-1">
+                    {t.crossChannels}
+                    {[0, 1].map(i => (
+                      <React.Fragment key={i}>
+                        <span className="font-bold">{i === 0 ? 'A' : 'B'}</span>
+                        <select
+                          value={crossChannels[i]}
+                          onChange={(e) => setCrossChannels(i === 0
+                            ? [e.target.value as DataAxis, crossChannels[1]]
+                            : [crossChannels[0], e.target.value as DataAxis])}
+                          className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                        >
+                          {(['ax', 'ay', 'az', 'vz', 'sz', 'jz'] as DataAxis[]).map(ax => (
+                            <option key={ax} value={ax}>{ax.toUpperCase()}</option>
+                          ))}
+                        </select>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                  <p className="flex-1 min-w-[200px] leading-snug">{t.crossNote}</p>
+                </div>
+              )}
               <div className="flex-1 min-h-0">
+                {spectrumMode === 'cross' ? (
+                <CrossSpectrumChart
+                  data={crossSpectrum?.data ?? []}
+                  color={theme.chartColors[crossChannels[0]]}
+                  unit={crossUnit}
+                  gridColor={theme.gridColor}
+                  textColor={theme.textColorHex}
+                />
+                ) : (
                 <FFTChart 
-                  data={fftData} 
+                  data={shownSpectrum?.data ?? []} 
                   color={theme.chartColors[accelAxis]} 
+                  unit={spectrumUnit}
+                  response={filterConfig.enabled && showFilterOverlay && spectrumMode === 'fft' ? filterResponse : undefined}
+                  markers={spectrumMode === 'envelope' ? faultMarkers : undefined}
+                  peaks={identifiedPeaks.map(p => ({ frequency: p.frequency, magnitude: p.magnitude, label: peakLabel(p) }))}
                   gridColor={theme.gridColor}
                   textColor={theme.textColorHex} 
                 />
+                )}
+              </div>
+            </div>
+            )}
+
+            {/* PEAK IDENTIFICATION TABLE */}
+            {exportSelection.fft && isFFTVisible && spectrumMode !== 'cross' && (
+            <div className={`${theme.bgCard} border ${theme.border} rounded-xl p-4 shadow-sm shrink-0`}>
+              <h2 className={`text-sm font-bold ${theme.textSecondary} mb-2`}>
+                {t.peakTable} ({spectrumMode === 'envelope' ? t.spectrumEnvelope : t.spectrumFft}, {accelAxis.toUpperCase()}, {carSpeed.toFixed(2)} m/s)
+              </h2>
+              {identifiedPeaks.length === 0 ? (
+                <p className={`text-xs ${theme.textSecondary}`}>{t.noPeaks}</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className={`${theme.textSecondary} border-b ${theme.border} text-left`}>
+                      <th className="py-1 font-normal">Hz</th>
+                      <th className="py-1 font-normal">{t.peakAmplitude} ({spectrumUnit})</th>
+                      <th className="py-1 font-normal">{t.peakSnr}</th>
+                      <th className="py-1 font-normal">{t.peakFamily}</th>
+                      <th className="py-1 font-normal">{t.peakComponent}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono">
+                    {identifiedPeaks.map((p, i) => (
+                      <tr key={i} className={`border-b ${theme.border} last:border-0`}>
+                        <td className="py-0.5">{p.frequency.toFixed(2)}</td>
+                        <td className="py-0.5">{p.magnitude < 0.01 ? p.magnitude.toExponential(2) : p.magnitude.toFixed(3)}</td>
+                        <td className="py-0.5">{p.snrDb.toFixed(1)}</td>
+                        <td className="py-0.5">{p.family !== null ? `F${p.family + 1} · ${p.order}×` : '-'}</td>
+                        <td className={`py-0.5 font-sans ${p.match ? '' : theme.textSecondary}`}>
+                          {p.match ? `${t.componentNames[p.match.component]} ${p.match.harmonic}×` : t.peakUnmatched}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            )}
+
+            {/* FILTER RESPONSE CHART */}
+            {exportSelection.fft && isFFTVisible && filterConfig.enabled && (
+            <div className={`${theme.bgCard} border ${theme.border} rounded-xl p-4 shadow-sm flex flex-col shrink-0`} style={{ height: chartHeight }}>
+              <div className="flex justify-between items-center mb-4 shrink-0">
+                <h2 className={`text-sm font-bold ${theme.textSecondary} flex items-center gap-2`}>
+                    {t.filterResponse} ({accelAxis.toUpperCase()}, {Number(fs.toFixed(1))} Hz)
+                </h2>
+              </div>
+              <div className="flex-1 min-h-0">
+                <FilterResponseChart
+                  data={filterResponse}
+                  cutoffs={cutoffs}
+                  color={theme.chartColors[accelAxis]}
+                  gridColor={theme.gridColor}
+                  textColor={theme.textColorHex}
+                />
+              </div>
+            </div>
+            )}
+
+            {/* SPECTROGRAM CHART */}
+            {exportSelection.spectrogram && isSpectrogramVisible && spectrogram && (
+            <div className={`${theme.bgCard} border ${theme.border} rounded-xl p-4 shadow-sm flex flex-col shrink-0`} style={{ height: chartHeight }}>
+              <div className="flex justify-between items-center mb-2 shrink-0 gap-4">
+                <h2 className={`text-sm font-bold ${theme.textSecondary} flex items-center gap-2 shrink-0`}>
+                    {t.spectrogram} ({accelAxis.toUpperCase()})
+                </h2>
+                <div className={`flex flex-wrap items-center justify-end gap-3 text-[10px] ${theme.textSecondary}`}>
+                  <label className="flex items-center gap-1 print:hidden">
+                    {t.spectrumWindow}
+                    <select
+                      value={spectrogramConfig.window}
+                      onChange={(e) => setSpectrogramConfig({ ...spectrogramConfig, window: e.target.value as WindowFunction })}
+                      className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                    >
+                      {(['rectangular', 'hann', 'hamming', 'flattop'] as WindowFunction[]).map(w => (
+                        <option key={w} value={w}>{t.windowNames[w]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1 print:hidden">
+                    {t.spectrumSegment}
+                    <select
+                      value={spectrogramConfig.segmentLength}
+                      onChange={(e) => setSpectrogramConfig({ ...spectrogramConfig, segmentLength: Number(e.target.value) })}
+                      className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                    >
+                      {[64, 128, 256, 512, 1024, 2048, 4096].map(len => (
+                        <option key={len} value={len}>{len} ({(len / fs).toFixed(2)} s)</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1 print:hidden">
+                    {t.spectrumOverlap}
+                    <select
+                      value={spectrogramConfig.overlap}
+                      onChange={(e) => setSpectrogramConfig({ ...spectrogramConfig, overlap: Number(e.target.value) })}
+                      className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                    >
+                      {[0, 0.5, 0.75, 0.875].map(o => (
+                        <option key={o} value={o}>{o * 100}%</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1 print:hidden">
+                    {t.colorScale}
+                    <select
+                      value={spectrogramConfig.scale}
+                      onChange={(e) => setSpectrogramConfig({ ...spectrogramConfig, scale: e.target.value as SpectrogramConfig['scale'] })}
+                      className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                    >
+                      {(['db', 'linear'] as SpectrogramConfig['scale'][]).map(sc => (
+                        <option key={sc} value={sc}>{t.scaleNames[sc]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {spectrogramConfig.scale === 'db' && (
+                    <label className="flex items-center gap-1 print:hidden">
+                      {t.dynamicRange}
+                      <select
+                        value={spectrogramConfig.dynamicRange}
+                        onChange={(e) => setSpectrogramConfig({ ...spectrogramConfig, dynamicRange: Number(e.target.value) })}
+                        className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                      >
+                        {[30, 40, 60, 80, 100].map(r => (
+                          <option key={r} value={r}>{r} dB</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  <label className="flex items-center gap-1 print:hidden">
+                    {t.colorMap}
+                    <select
+                      value={spectrogramConfig.colorMap}
+                      onChange={(e) => setSpectrogramConfig({ ...spectrogramConfig, colorMap: e.target.value as SpectrogramColorMap })}
+                      className={`p-1 rounded border ${theme.border} ${theme.bgCard} ${theme.textPrimary}`}
+                    >
+                      {(['viridis', 'inferno', 'gray'] as SpectrogramColorMap[]).map(m => (
+                        <option key={m} value={m}>{m}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1 print:hidden">
+                    {t.freqMax}
+                    <input
+                      type="number"
+                      min="1"
+                      placeholder={(fs / 2).toFixed(0)}
+                      value={spectrogramConfig.freqMax ?? ''}
+                      onChange={(e) => setSpectrogramConfig({ ...spectrogramConfig, freqMax: e.target.value === '' ? null : Math.max(1, Number(e.target.value)) })}
+                      className={`w-14 p-1 rounded border ${theme.border} bg-transparent ${theme.textPrimary}`}
+                    />
+                  </label>
+                  <button 
+                    onClick={() => setIsSpectrogramVisible(false)}
+                    className={`text-[10px] p-1 rounded hover:bg-red-500/20 hover:text-red-500 transition-colors ${theme.textSecondary} print:hidden`}
+                    title={t.hideChart}
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+              <div className="flex-1 min-h-0">
+                <SpectrogramChart
+                  data={spectrogram}
+                  config={spectrogramConfig}
+                  fs={fs}
+                  unit={accelAxis === 'vz' ? 'm/s' : accelAxis === 'sz' ? 'm' : 'Gals'}
+                  windowRange={{ start: windowStart, end: windowStart + windowSize }}
+                  verticalLines={isoVerticalLines}
+                  highlightAreas={isoHighlightAreas}
+                  onChartClick={handleChartClick}
+                  xDomain={viewDomain || undefined}
+                  onZoom={handleZoom}
+                  gridColor={theme.gridColor}
+                  textColor={theme.textColorHex}
+                />
+              </div>
+            </div>
+            )}
+
+            {/* 1/3-OCTAVE CHART */}
+            {exportSelection.octave && octaveLevels.length > 0 && octaveRange && (
+            <div className={`${theme.bgCard} border ${theme.border} rounded-xl p-4 shadow-sm flex flex-col shrink-0`} style={{ height: chartHeight }}>
+              <div className="flex justify-between items-center mb-2 shrink-0 gap-4">
+                <h2 className={`text-sm font-bold ${theme.textSecondary} flex items-center gap-2`}>
+                    {t.octaveBands}
+                    <span className="font-mono font-normal text-xs">{octaveRange[0].toFixed(2)}–{octaveRange[1].toFixed(2)} s</span>
+                </h2>
+                <div className="flex items-center gap-3">
+                  {octaveSource === 'constVel' && !boundaries?.isValid && (
+                    <span className="text-[10px] text-yellow-500">⚠ {t.octaveNoConstVel}</span>
+                  )}
+                  <div className={`flex rounded border ${theme.border} p-0.5 print:hidden`}>
+                    {(['window', 'constVel'] as OctaveSource[]).map((src) => (
+                      <button
+                        key={src}
+                        onClick={() => setOctaveSource(src)}
+                        className={`px-2 py-0.5 text-xs font-bold rounded ${
+                          octaveSource === src ? `bg-gray-500/20 ${theme.textPrimary}` : theme.textSecondary
+                        }`}
+                      >
+                        {src === 'window' ? t.octaveWindow : t.octaveConstVel}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    onClick={handleExportOctave}
+                    className={`text-[10px] px-2 py-1 rounded border ${theme.border} hover:bg-white/10 ${theme.textSecondary} print:hidden`}
+                  >
+                    {t.exportCsv}
+                  </button>
+                </div>
+              </div>
+              <div className="flex-1 min-h-0">
+                <OctaveBandChart
+                  data={octaveLevels}
+                  colors={{ x: theme.chartColors.ax, y: theme.chartColors.ay, z: theme.chartColors.az }}
+                  gridColor={theme.gridColor}
+                  textColor={theme.textColorHex}
+                />
               </div>
             </div>
             )}
@@ -1237,7 +3213,7 @@ const App: React.FC = () => {
                     {t.kinematics}
                   </h2>
                   <div className={`flex rounded border ${theme.border} p-0.5 print:hidden`}>
-                    {['vz', 'sz'].map((ax) => (
+                    {['vz', 'sz', 'jz'].map((ax) => (
                       <button 
                         key={ax} 
                         onClick={() => setIntAxis(ax as DataAxis)}
@@ -1304,7 +3280,16 @@ const App: React.FC = () => {
                    </div>
                 </div>
               </div>
-              
+
+              {kinematics && (
+                <div className={`flex flex-wrap gap-x-4 gap-y-1 mb-2 text-[10px] font-mono ${theme.textSecondary} shrink-0`}>
+                  <span>{t.accelPhase}: {kinematics.accel.max.toFixed(1)} / {kinematics.accel.a95.toFixed(1)} Gal · {kinematics.accel.duration.toFixed(1)} s</span>
+                  <span>{t.decelPhase}: {kinematics.decel.max.toFixed(1)} / {kinematics.decel.a95.toFixed(1)} Gal · {kinematics.decel.duration.toFixed(1)} s</span>
+                  <span className={intAxis === 'jz' ? theme.textPrimary : ''}>{t.maxJerk}: {Math.abs(kinematics.maxJerk.value).toFixed(2)} m/s³ @ {kinematics.maxJerk.time.toFixed(2)} s</span>
+                  <span className={intAxis === 'vz' ? theme.textPrimary : ''}>{t.maxVelocity}: {kinematics.maxVelocity.toFixed(3)} m/s · V95 {kinematics.v95.toFixed(3)} m/s</span>
+                </div>
+              )}
+
               <div className="flex-1 min-h-0">
                 <TimeChart 
                   data={displayData} 
@@ -1314,6 +3299,7 @@ const App: React.FC = () => {
                   windowRange={{ start: windowStart, end: windowStart + windowSize }}
                   onChartClick={handleChartClick}
                   verticalLines={isoVerticalLines}
+                  onLineDrag={setManualBoundary}
                   highlightAreas={isoHighlightAreas}
                   yDomain={parseDomain(yMinInt, yMaxInt)}
                   xDomain={viewDomain || undefined}
@@ -1326,6 +3312,53 @@ const App: React.FC = () => {
             </div>
             )}
 
+            {/* RUN COMPARISON TABLE */}
+            {exportSelection.kinematics && runs.length > 1 && (
+            <div className={`${theme.bgCard} border ${theme.border} rounded-xl p-4 shadow-sm shrink-0`}>
+              <h2 className={`text-sm font-bold ${theme.textSecondary} mb-2`}>
+                {t.runComparison} ({runs.length})
+              </h2>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className={`${theme.textSecondary} border-b ${theme.border} text-left`}>
+                    <th className="py-1 font-normal">{t.run}</th>
+                    <th className="py-1 font-normal">{t.runDistance}</th>
+                    <th className="py-1 font-normal">{t.runDuration}</th>
+                    <th className="py-1 font-normal">{t.maxVelocity} / V95 (m/s)</th>
+                    <th className="py-1 font-normal">{t.accelPhase} (Gal)</th>
+                    <th className="py-1 font-normal">{t.decelPhase} (Gal)</th>
+                    <th className="py-1 font-normal">{t.maxJerk} (m/s³)</th>
+                    <th className="py-1 font-normal">Z A95 / {t.maxPkPk}</th>
+                    <th className="py-1 font-normal">X / Y A95</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {evaluatedRuns.map((run, i) => (
+                    <tr
+                      key={i}
+                      onClick={() => { setSelectedRun(i); handleZoom(run.start, run.end); }}
+                      className={`border-b ${theme.border} last:border-0 cursor-pointer hover:bg-gray-500/10 ${selectedRun === i ? `bg-gray-500/20 ${theme.textPrimary}` : ''}`}
+                    >
+                      <td className="py-0.5 font-sans">
+                        {i + 1} {run.direction === 'up' ? '↑' : '↓'}
+                        {run.boundaries.isManual && <span className={`ml-1 text-[10px] ${theme.textSecondary}`}>({t.boundaryManual})</span>}
+                      </td>
+                      <td className="py-0.5">{run.distance.toFixed(2)}</td>
+                      <td className="py-0.5">{run.kinematics.runDuration.toFixed(1)}</td>
+                      <td className="py-0.5">{run.kinematics.maxVelocity.toFixed(3)} / {run.kinematics.v95.toFixed(3)}</td>
+                      <td className="py-0.5">{run.kinematics.accel.max.toFixed(1)} / {run.kinematics.accel.a95.toFixed(1)}</td>
+                      <td className="py-0.5">{run.kinematics.decel.max.toFixed(1)} / {run.kinematics.decel.a95.toFixed(1)}</td>
+                      <td className="py-0.5">{Math.abs(run.kinematics.maxJerk.value).toFixed(2)}</td>
+                      <td className="py-0.5">{run.isoStats.z.constVel.a95.toFixed(2)} / {(run.isoStats.z.global?.pkPk ?? run.isoStats.z.constVel.pkPk).toFixed(2)}</td>
+                      <td className="py-0.5">{run.isoStats.x.constVel.a95.toFixed(2)} / {run.isoStats.y.constVel.a95.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className={`text-[10px] ${theme.textSecondary} mt-2 italic print:hidden`}>{t.runNote}</p>
+            </div>
+            )}
+
         </div>
       </main>
     </div>
@@ -1,16 +1,17 @@
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
-  AreaChart, Area, ReferenceArea, ReferenceLine, Label, ReferenceDot
+  AreaChart, Area, ReferenceArea, ReferenceLine, Label, ReferenceDot, ComposedChart, BarChart, Bar, Legend
 } from 'recharts';
-import { FFTResult, ProcessedDataPoint, DataAxis, AnalysisStats } from '../types';
+import { FFTResult, FilterResponsePoint, ProcessedDataPoint, DataAxis, AnalysisStats, Spectrogram, SpectrogramConfig, SpectrogramColorMap, OctaveBandLevel, CrossSpectrumPoint } from '../types';
 
 interface VerticalLineDef {
   x: number;
   color: string;
   label?: string;
   dash?: string;
+  draggable?: boolean; // Can be moved with the mouse (reported through onLineDrag)
 }
 
 interface HighlightAreaDef {
@@ -33,16 +34,23 @@ interface TimeChartProps {
   yDomain?: [number | 'auto', number | 'auto'];
   xDomain?: [number, number]; // New prop for Zoom control
   onZoom?: (left: number, right: number) => void; // Callback for zoom
+  onLineDrag?: (index: number, x: number) => void; // A draggable vertical line moved to x
   gridColor?: string;
   textColor?: string;
   brushColor?: string;
 }
 
+// A draggable line is grabbed within this fraction of the visible time span
+const LINE_GRAB_FRACTION = 0.01;
+
 const formatYAxis = (val: number) => {
   if (val === 0) return "0.00";
   return val.toFixed(2);
 };
 
+// Spectrum values span decades (PSD in Gal²/Hz), so small ones switch to exponent form
+const formatMagnitude = (val: number) => Math.abs(val) >= 0.01 || val === 0 ? val.toFixed(2) : val.toExponential(1);
+
 export const TimeChart: React.FC<TimeChartProps> = ({ 
   data, 
   axis, 
@@ -57,29 +65,62 @@ export const TimeChart: React.FC<TimeChartProps> = ({
   yDomain = ['auto', 'auto'],
   xDomain,
   onZoom,
+  onLineDrag,
   gridColor = "#374151",
   textColor = "#9ca3af",
   brushColor = "#9ca3af"
 }) => {
-  const unit = axis.startsWith('a') ? 'Gals' : axis === 'vz' ? 'm/s' : 'm';
+  const unit = axis.startsWith('a') ? 'Gals' : axis === 'vz' ? 'm/s' : axis === 'jz' ? 'm/s³' : 'm';
 
   // Internal state for drag-to-zoom interaction
   const [refAreaLeft, setRefAreaLeft] = useState<number | null>(null);
   const [refAreaRight, setRefAreaRight] = useState<number | null>(null);
 
+  // Line dragging: the line under the mouse, the one being moved, and whether the next click ends a drag
+  const [hoverLine, setHoverLine] = useState<number | null>(null);
+  const [dragLine, setDragLine] = useState<number | null>(null);
+  const draggedRef = useRef(false);
+
+  // Nearest draggable line within grabbing distance of time t
+  const lineAt = (t: number): number | null => {
+    if (!onLineDrag || !verticalLines || data.length === 0) return null;
+    const [left, right] = xDomain || [data[0].time, data[data.length - 1].time];
+    const reach = (right - left) * LINE_GRAB_FRACTION;
+    let nearest: number | null = null;
+    verticalLines.forEach((line, idx) => {
+      if (line.draggable && Math.abs(line.x - t) <= reach && (nearest === null || Math.abs(line.x - t) < Math.abs(verticalLines[nearest].x - t))) {
+        nearest = idx;
+      }
+    });
+    return nearest;
+  };
+
   const handleMouseDown = (e: any) => {
+    draggedRef.current = false;
     if (e && e.activeLabel) {
-      setRefAreaLeft(Number(e.activeLabel));
+      const line = lineAt(Number(e.activeLabel));
+      if (line !== null) {
+        setDragLine(line);
+        draggedRef.current = true;
+      } else if (onZoom) {
+        setRefAreaLeft(Number(e.activeLabel));
+      }
     }
   };
 
   const handleMouseMove = (e: any) => {
-    if (refAreaLeft !== null && e && e.activeLabel) {
+    if (!e || !e.activeLabel) return;
+    if (dragLine !== null) {
+      onLineDrag?.(dragLine, Number(e.activeLabel));
+    } else if (refAreaLeft !== null) {
       setRefAreaRight(Number(e.activeLabel));
+    } else {
+      setHoverLine(lineAt(Number(e.activeLabel)));
     }
   };
 
   const handleMouseUp = () => {
+    setDragLine(null);
     if (refAreaLeft !== null && refAreaRight !== null && onZoom) {
       const [left, right] = [refAreaLeft, refAreaRight].sort((a, b) => a - b);
       if (right > left) {
@@ -91,15 +132,24 @@ export const TimeChart: React.FC<TimeChartProps> = ({
   };
 
   return (
-    <div className="h-full w-full relative select-none">
+    <div
+      className="h-full w-full relative select-none"
+      style={{ cursor: dragLine !== null || hoverLine !== null ? 'ew-resize' : undefined }}
+    >
       <ResponsiveContainer width="100%" height="100%">
         <LineChart 
           data={data} 
           syncId={syncId}
-          onMouseDown={onZoom ? handleMouseDown : undefined}
-          onMouseMove={onZoom ? handleMouseMove : undefined}
-          onMouseUp={onZoom ? handleMouseUp : undefined}
+          onMouseDown={onZoom || onLineDrag ? handleMouseDown : undefined}
+          onMouseMove={onZoom || onLineDrag ? handleMouseMove : undefined}
+          onMouseUp={onZoom || onLineDrag ? handleMouseUp : undefined}
+          onMouseLeave={() => { setDragLine(null); setHoverLine(null); }}
           onClick={(e) => {
+            // A drag that ends here does not move the analysis window
+            if (draggedRef.current) {
+              draggedRef.current = false;
+              return;
+            }
             // Only trigger click if we weren't dragging (zooming)
             if (!refAreaLeft && onChartClick && e && e.activeLabel) {
               onChartClick(Number(e.activeLabel));
@@ -279,6 +329,13 @@ export const TimeChart: React.FC<TimeChartProps> = ({
 interface FFTChartProps {
   data: FFTResult[];
   color: string;
+  unit?: string; // Magnitude unit, "Gals" or "Gal²/Hz" for a PSD
+  response?: FilterResponsePoint[]; // Filter magnitude overlaid on a dB axis
+  responseColor?: string;
+  markers?: { frequency: number; label: string }[]; // Expected fault frequencies
+  markerColor?: string;
+  peaks?: { frequency: number; magnitude: number; label: string }[]; // Identified peaks, shown instead of the top 3
+
   gridColor?: string;
   textColor?: string;
 }
@@ -286,19 +343,26 @@ interface FFTChartProps {
 export const FFTChart: React.FC<FFTChartProps> = ({ 
   data, 
   color,
+  unit = "Gals",
+  response,
+  responseColor = "#f59e0b",
+  markers = [],
+  markerColor = "#ef4444",
+  peaks,
   gridColor = "#374151",
   textColor = "#9ca3af"
 }) => {
   
-  // Get top 3 peaks
-  const top3Peaks = [...data]
+  // Identified peaks, or else the top 3 magnitudes
+  const labelledPeaks = peaks ?? [...data]
     .sort((a, b) => b.magnitude - a.magnitude)
-    .slice(0, 3);
+    .slice(0, 3)
+    .map(p => ({ ...p, label: '' }));
 
   return (
     <div className="h-full w-full">
       <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={data} margin={{ top: 20, right: 30, left: 10, bottom: 5 }}>
+        <ComposedChart data={data} margin={{ top: 20, right: 30, left: 10, bottom: 5 }}>
           <defs>
             <linearGradient id={`colorSplit-${color}`} x1="0" y1="0" x2="0" y2="1">
               <stop offset="5%" stopColor={color} stopOpacity={0.8}/>
@@ -315,18 +379,34 @@ export const FFTChart: React.FC<FFTChartProps> = ({
             label={{ value: 'Frequency (Hz)', position: 'insideBottom', offset: -5, fill: textColor }}
           />
           <YAxis 
+            yAxisId="mag"
             stroke={textColor} 
             fontSize={12} 
-            tickFormatter={formatYAxis}
+            tickFormatter={formatMagnitude}
             width={50}
           />
+          {response && (
+            <YAxis
+              yAxisId="db"
+              orientation="right"
+              stroke={responseColor}
+              fontSize={11}
+              domain={[-80, 10]}
+              allowDataOverflow
+              width={40}
+              unit=" dB"
+            />
+          )}
           <Tooltip 
             cursor={{stroke: textColor, strokeWidth: 1, strokeDasharray: '3 3'}}
             contentStyle={{ backgroundColor: 'rgba(17, 24, 39, 0.9)', border: `1px solid ${gridColor}`, color: '#fff' }}
-            formatter={(value: number) => [`${value.toFixed(2)} Gals`, 'Magnitude']}
+            formatter={(value: number, name: string) => name === 'magnitudeDb'
+              ? [`${value.toFixed(1)} dB`, 'Filter']
+              : [`${formatMagnitude(value)} ${unit}`, 'Magnitude']}
             labelFormatter={(label) => `Freq: ${Number(label).toFixed(1)} Hz`}
           />
           <Area 
+            yAxisId="mag"
             type="monotone" 
             dataKey="magnitude" 
             stroke={color} 
@@ -334,30 +414,517 @@ export const FFTChart: React.FC<FFTChartProps> = ({
             fill={`url(#colorSplit-${color})`} 
             isAnimationActive={false}
           />
+          {response && (
+            <Line
+              yAxisId="db"
+              data={response}
+              type="monotone"
+              dataKey="magnitudeDb"
+              stroke={responseColor}
+              strokeWidth={1.5}
+              strokeDasharray="4 2"
+              dot={false}
+              isAnimationActive={false}
+            />
+          )}
+          {markers.map((m, index) => (
+            <ReferenceLine key={`marker-${index}`} yAxisId="mag" x={m.frequency} stroke={markerColor} strokeDasharray="3 3" strokeOpacity={0.8}>
+              <Label value={m.label} position="insideTopRight" fill={markerColor} fontSize={10} />
+            </ReferenceLine>
+          ))}
           
-          {top3Peaks.map((point, index) => (
+          {labelledPeaks.map((point, index) => (
              point.magnitude > 0 && (
               <ReferenceDot 
                 key={index}
+                yAxisId="mag"
                 x={point.frequency} 
                 y={point.magnitude} 
-                r={4} 
+                r={peaks ? 3 : 4} 
                 fill={color} 
                 stroke="#fff" 
-                strokeWidth={2}
+                strokeWidth={peaks ? 1 : 2}
               >
                  <Label 
-                   value={`${point.magnitude.toFixed(2)} Gals, ${point.frequency.toFixed(1)} Hz`} 
+                   value={peaks
+                     ? `${point.frequency.toFixed(1)} Hz${point.label ? ` ${point.label}` : ''}`
+                     : `${formatMagnitude(point.magnitude)} ${unit}, ${point.frequency.toFixed(1)} Hz`} 
                    position="top" 
                    fill={textColor} 
-                   fontSize={12} 
+                   fontSize={peaks ? 10 : 12} 
                    fontWeight="bold"
                  />
               </ReferenceDot>
              )
           ))}
-        </AreaChart>
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
 };
+
+interface CrossSpectrumChartProps {
+  data: CrossSpectrumPoint[];
+  color: string;
+  unit: string;
+  coherenceColor?: string;
+  phaseColor?: string;
+  gridColor?: string;
+  textColor?: string;
+}
+
+// Cross magnitude with coherence (0-1, right) above, phase of B relative to A below; hover is shared
+export const CrossSpectrumChart: React.FC<CrossSpectrumChartProps> = ({
+  data,
+  color,
+  unit,
+  coherenceColor = "#f59e0b",
+  phaseColor = "#a78bfa",
+  gridColor = "#374151",
+  textColor = "#9ca3af"
+}) => {
+  const tooltipStyle = { backgroundColor: 'rgba(17, 24, 39, 0.9)', border: `1px solid ${gridColor}`, color: '#fff' };
+  const formatter = (value: number, name: string) =>
+    name === 'coherence' ? [value.toFixed(3), 'Coherence']
+    : name === 'phaseDeg' ? [`${value.toFixed(1)}°`, 'Phase']
+    : [`${formatMagnitude(value)} ${unit}`, 'Cross'];
+
+  return (
+    <div className="h-full w-full flex flex-col">
+      <div className="flex-[3] min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} syncId="crossSync" margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} opacity={0.3} />
+            <XAxis dataKey="frequency" type="number" domain={['dataMin', 'dataMax']} stroke={textColor} fontSize={11} tickCount={10} hide />
+            <YAxis yAxisId="mag" stroke={textColor} fontSize={12} tickFormatter={formatMagnitude} width={50} />
+            <YAxis yAxisId="coh" orientation="right" stroke={coherenceColor} fontSize={11} domain={[0, 1]} ticks={[0, 0.5, 1]} width={35} />
+            <Tooltip
+              cursor={{ stroke: textColor, strokeWidth: 1, strokeDasharray: '3 3' }}
+              contentStyle={tooltipStyle}
+              formatter={formatter}
+              labelFormatter={(label) => `Freq: ${Number(label).toFixed(2)} Hz`}
+            />
+            <Area yAxisId="mag" type="monotone" dataKey="magnitude" stroke={color} fill={color} fillOpacity={0.25} isAnimationActive={false} />
+            <Line yAxisId="coh" type="monotone" dataKey="coherence" stroke={coherenceColor} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex-[2] min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} syncId="crossSync" margin={{ top: 5, right: 45, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} opacity={0.3} />
+            <XAxis
+              dataKey="frequency"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              stroke={textColor}
+              fontSize={11}
+              tickCount={10}
+              label={{ value: 'Frequency (Hz)', position: 'insideBottom', offset: -5, fill: textColor }}
+            />
+            <YAxis stroke={phaseColor} fontSize={11} domain={[-180, 180]} ticks={[-180, -90, 0, 90, 180]} unit="°" width={50} />
+            <Tooltip cursor={{ stroke: textColor, strokeWidth: 1, strokeDasharray: '3 3' }} contentStyle={tooltipStyle} formatter={formatter} labelFormatter={(label) => `Freq: ${Number(label).toFixed(2)} Hz`} />
+            <Line type="linear" dataKey="phaseDeg" stroke={phaseColor} strokeWidth={1} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+interface FilterResponseChartProps {
+  data: FilterResponsePoint[];
+  cutoffs?: { frequency: number; label: string }[];
+  color: string;
+  phaseColor?: string;
+  gridColor?: string;
+  textColor?: string;
+}
+
+// Magnitude (dB, left) and phase (°, right) of the filter chain on a log frequency axis
+export const FilterResponseChart: React.FC<FilterResponseChartProps> = ({
+  data,
+  cutoffs = [],
+  color,
+  phaseColor = "#a78bfa",
+  gridColor = "#374151",
+  textColor = "#9ca3af"
+}) => {
+  const fMin = data.length ? data[0].frequency : 0.05;
+  const fMax = data.length ? data[data.length - 1].frequency : 1;
+
+  return (
+    <div className="h-full w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 20, right: 10, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={gridColor} opacity={0.3} />
+          <XAxis
+            dataKey="frequency"
+            type="number"
+            scale="log"
+            domain={[fMin, fMax]}
+            ticks={[0.1, 1, 10, 100, 1000].filter(f => f >= fMin && f <= fMax)}
+            stroke={textColor}
+            fontSize={11}
+            label={{ value: 'Frequency (Hz)', position: 'insideBottom', offset: -5, fill: textColor }}
+          />
+          <YAxis
+            yAxisId="db"
+            stroke={textColor}
+            fontSize={12}
+            domain={['auto', 10]}
+            unit=" dB"
+            width={60}
+          />
+          <YAxis
+            yAxisId="phase"
+            orientation="right"
+            stroke={phaseColor}
+            fontSize={11}
+            domain={[-180, 180]}
+            ticks={[-180, -90, 0, 90, 180]}
+            unit="°"
+            width={45}
+          />
+          <Tooltip
+            cursor={{stroke: textColor, strokeWidth: 1, strokeDasharray: '3 3'}}
+            contentStyle={{ backgroundColor: 'rgba(17, 24, 39, 0.9)', border: `1px solid ${gridColor}`, color: '#fff' }}
+            formatter={(value: number, name: string) => name === 'phaseDeg'
+              ? [`${value.toFixed(1)}°`, 'Phase']
+              : [`${value.toFixed(2)} dB`, 'Magnitude']}
+            labelFormatter={(label) => `Freq: ${Number(label).toFixed(2)} Hz`}
+          />
+          {/* Forward-backward stages are -6 dB at their cutoff */}
+          <ReferenceLine yAxisId="db" y={-6} stroke={textColor} strokeDasharray="2 4" strokeOpacity={0.6}>
+            <Label value="-6 dB" position="insideTopLeft" fill={textColor} fontSize={10} />
+          </ReferenceLine>
+          {cutoffs.map((c, index) => (
+            <ReferenceLine key={index} yAxisId="db" x={c.frequency} stroke={color} strokeDasharray="3 3" strokeOpacity={0.7}>
+              <Label value={`${c.label} ${c.frequency}Hz`} position="top" fill={textColor} fontSize={10} />
+            </ReferenceLine>
+          ))}
+          <Line yAxisId="db" type="monotone" dataKey="magnitudeDb" stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Line yAxisId="phase" type="monotone" dataKey="phaseDeg" stroke={phaseColor} strokeWidth={1} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+interface OctaveBandChartProps {
+  data: OctaveBandLevel[];
+  colors: { x: string; y: string; z: string };
+  gridColor?: string;
+  textColor?: string;
+}
+
+// Band RMS per axis, one group of bars per 1/3-octave band
+export const OctaveBandChart: React.FC<OctaveBandChartProps> = ({
+  data,
+  colors,
+  gridColor = "#374151",
+  textColor = "#9ca3af"
+}) => (
+  <div className="h-full w-full">
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={data} margin={{ top: 20, right: 30, left: 10, bottom: 5 }} barCategoryGap="15%">
+        <CartesianGrid strokeDasharray="3 3" stroke={gridColor} opacity={0.3} />
+        <XAxis
+          dataKey="nominal"
+          stroke={textColor}
+          fontSize={10}
+          interval={0}
+          label={{ value: 'Band (Hz)', position: 'insideBottom', offset: -5, fill: textColor }}
+        />
+        <YAxis stroke={textColor} fontSize={12} tickFormatter={formatMagnitude} width={50}>
+          <Label value="RMS (Gals)" angle={-90} position="insideLeft" style={{ textAnchor: 'middle', fill: textColor, fontSize: 12 }} />
+        </YAxis>
+        <Tooltip
+          cursor={{ fill: textColor, fillOpacity: 0.1 }}
+          contentStyle={{ backgroundColor: 'rgba(17, 24, 39, 0.9)', border: `1px solid ${gridColor}`, color: '#fff' }}
+          formatter={(value: number, name: string) => [`${value.toFixed(3)} Gals`, name.toUpperCase()]}
+          labelFormatter={(label) => `${label} Hz`}
+        />
+        <Legend verticalAlign="top" height={20} iconSize={8} wrapperStyle={{ fontSize: 11 }} formatter={(value: string) => value.toUpperCase()} />
+        <Bar dataKey="x" fill={colors.x} isAnimationActive={false} />
+        <Bar dataKey="y" fill={colors.y} isAnimationActive={false} />
+        <Bar dataKey="z" fill={colors.z} isAnimationActive={false} />
+      </BarChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+// --- Spectrogram ---
+
+// Colour map anchors, interpolated linearly (matplotlib's viridis / inferno, sampled)
+const COLOR_MAPS: Record<SpectrogramColorMap, [number, number, number][]> = {
+  viridis: [[68, 1, 84], [72, 40, 120], [62, 74, 137], [49, 104, 142], [38, 130, 142], [31, 158, 137], [53, 183, 121], [109, 205, 89], [180, 222, 44], [253, 231, 37]],
+  inferno: [[0, 0, 4], [31, 12, 72], [85, 15, 109], [136, 34, 106], [186, 54, 85], [227, 89, 51], [249, 140, 10], [249, 201, 50], [252, 255, 164]],
+  gray: [[0, 0, 0], [255, 255, 255]]
+};
+
+const colorAt = (map: SpectrogramColorMap, v: number): [number, number, number] => {
+  const stops = COLOR_MAPS[map];
+  const x = Math.min(1, Math.max(0, v)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(x));
+  const f = x - i;
+  const [a, b] = [stops[i], stops[i + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+};
+
+// Round tick spacing (1, 2, 5 × 10^k) giving about `count` ticks over `span`
+const niceStep = (span: number, count: number) => {
+  const raw = span / Math.max(1, count);
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const norm = raw / mag;
+  return (norm < 1.5 ? 1 : norm < 3.5 ? 2 : norm < 7.5 ? 5 : 10) * mag;
+};
+
+const SPECTROGRAM_MARGIN = { top: 20, right: 70, bottom: 22, left: 60 };
+
+interface SpectrogramChartProps {
+  data: Spectrogram;
+  config: SpectrogramConfig;
+  fs: number;
+  unit: string;
+  windowRange?: { start: number; end: number };
+  verticalLines?: VerticalLineDef[];
+  highlightAreas?: HighlightAreaDef[];
+  onChartClick?: (time: number) => void;
+  xDomain?: [number, number];
+  onZoom?: (left: number, right: number) => void;
+  gridColor?: string;
+  textColor?: string;
+}
+
+// Time-frequency image on a canvas (far too many cells for SVG), sharing TimeChart's
+// time axis, markers, click-to-move and drag-to-zoom
+export const SpectrogramChart: React.FC<SpectrogramChartProps> = ({
+  data,
+  config,
+  fs,
+  unit,
+  windowRange,
+  verticalLines = [],
+  highlightAreas = [],
+  onChartClick,
+  xDomain,
+  onZoom,
+  gridColor = "#374151",
+  textColor = "#9ca3af"
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [dragStart, setDragStart] = useState<number | null>(null);
+  const [dragEnd, setDragEnd] = useState<number | null>(null);
+  const [hover, setHover] = useState<{ x: number; y: number; time: number; freq: number; value: number } | null>(null);
+
+  const frames = data.times.length;
+  const shownBins = Math.min(data.bins, Math.max(1, Math.ceil((config.freqMax ?? fs / 2) / data.binWidth) + 1));
+  const fTop = (shownBins - 0.5) * data.binWidth;
+  const fBottom = -0.5 * data.binWidth;
+  const [t0, t1] = xDomain ?? [data.times[0] - data.frameStep / 2, data.times[frames - 1] + data.frameStep / 2];
+
+  const plot = {
+    left: SPECTROGRAM_MARGIN.left,
+    top: SPECTROGRAM_MARGIN.top,
+    width: Math.max(1, size.width - SPECTROGRAM_MARGIN.left - SPECTROGRAM_MARGIN.right),
+    height: Math.max(1, size.height - SPECTROGRAM_MARGIN.top - SPECTROGRAM_MARGIN.bottom)
+  };
+  const xOf = (t: number) => plot.left + (t - t0) / (t1 - t0) * plot.width;
+  const tOf = (x: number) => t0 + (x - plot.left) / plot.width * (t1 - t0);
+  const yOf = (f: number) => plot.top + (fTop - f) / (fTop - fBottom) * plot.height;
+
+  // Cell value -> 0..1 colour position
+  const level = (value: number) => config.scale === 'db'
+    ? 1 + 20 * Math.log10(Math.max(value, 1e-12) / data.max) / config.dynamicRange
+    : value / data.max;
+
+  // 1. Frames × bins bitmap, one pixel per cell, highest frequency on top
+  const image = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = frames;
+    canvas.height = shownBins;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || data.max <= 0) return canvas;
+    const pixels = ctx.createImageData(frames, shownBins);
+    for (let f = 0; f < frames; f++) {
+      for (let k = 0; k < shownBins; k++) {
+        const [r, g, b] = colorAt(config.colorMap, level(data.magnitude[f * data.bins + k]));
+        const p = ((shownBins - 1 - k) * frames + f) * 4;
+        pixels.data[p] = r;
+        pixels.data[p + 1] = g;
+        pixels.data[p + 2] = b;
+        pixels.data[p + 3] = 255;
+      }
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  }, [data, shownBins, config.colorMap, config.scale, config.dynamicRange]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // 2. Image, markers and axes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(plot.left, plot.top, plot.width, plot.height);
+    ctx.clip();
+    ctx.imageSmoothingEnabled = false;
+    const x0 = xOf(data.times[0] - data.frameStep / 2);
+    ctx.drawImage(image, x0, plot.top, xOf(data.times[0] - data.frameStep / 2 + frames * data.frameStep) - x0, plot.height);
+
+    highlightAreas.forEach(area => {
+      ctx.fillStyle = area.color;
+      ctx.globalAlpha = 0.15;
+      ctx.fillRect(xOf(area.x1), plot.top, xOf(area.x2) - xOf(area.x1), plot.height);
+      ctx.globalAlpha = 1;
+    });
+    if (windowRange) {
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([]);
+      ctx.strokeRect(xOf(windowRange.start), plot.top + 1, xOf(windowRange.end) - xOf(windowRange.start), plot.height - 2);
+    }
+    ctx.font = '10px sans-serif';
+    verticalLines.forEach(line => {
+      const x = xOf(line.x);
+      ctx.strokeStyle = line.color;
+      ctx.lineWidth = 2;
+      ctx.setLineDash(line.dash ? line.dash.split(' ').map(Number) : []);
+      ctx.beginPath();
+      ctx.moveTo(x, plot.top);
+      ctx.lineTo(x, plot.top + plot.height);
+      ctx.stroke();
+      if (line.label) {
+        ctx.fillStyle = line.color;
+        ctx.fillText(line.label, x + 3, plot.top + 10);
+      }
+    });
+    if (dragStart !== null && dragEnd !== null) {
+      ctx.fillStyle = textColor;
+      ctx.globalAlpha = 0.3;
+      ctx.fillRect(Math.min(dragStart, dragEnd), plot.top, Math.abs(dragEnd - dragStart), plot.height);
+      ctx.globalAlpha = 1;
+    }
+    ctx.restore();
+
+    // Axes
+    ctx.setLineDash([]);
+    ctx.strokeStyle = gridColor;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(plot.left, plot.top, plot.width, plot.height);
+    ctx.fillStyle = textColor;
+    ctx.font = '10px sans-serif';
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    const tStep = niceStep(t1 - t0, Math.floor(plot.width / 80));
+    for (let t = Math.ceil(t0 / tStep) * tStep; t <= t1; t += tStep) {
+      ctx.fillText(`${Number(t.toFixed(6))}s`, xOf(t), plot.top + plot.height + 4);
+    }
+
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    const fStep = niceStep(fTop, Math.floor(plot.height / 30));
+    for (let f = 0; f <= fTop; f += fStep) {
+      ctx.fillText(`${Number(f.toFixed(6))}`, plot.left - 6, yOf(f));
+    }
+    ctx.save();
+    ctx.translate(14, plot.top + plot.height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = 'center';
+    ctx.fillText('Frequency (Hz)', 0, 0);
+    ctx.restore();
+
+    // Colour bar
+    const barX = plot.left + plot.width + 10;
+    for (let y = 0; y < plot.height; y++) {
+      const [r, g, b] = colorAt(config.colorMap, 1 - y / plot.height);
+      ctx.fillStyle = `rgb(${r | 0},${g | 0},${b | 0})`;
+      ctx.fillRect(barX, plot.top + y, 10, 1);
+    }
+    ctx.fillStyle = textColor;
+    ctx.textAlign = 'left';
+    ctx.fillText(config.scale === 'db' ? '0 dB' : formatMagnitude(data.max), barX + 13, plot.top + 4);
+    ctx.fillText(config.scale === 'db' ? `-${config.dynamicRange}` : '0', barX + 13, plot.top + plot.height - 4);
+  }, [image, size, t0, t1, fTop, windowRange?.start, windowRange?.end, verticalLines, highlightAreas, dragStart, dragEnd, gridColor, textColor]);
+
+  // Mouse x (canvas px) -> time, only inside the plot
+  const plotX = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const { x, y } = plotX(e);
+    if (dragStart !== null) setDragEnd(x);
+    const inside = x >= plot.left && x <= plot.left + plot.width && y >= plot.top && y <= plot.top + plot.height;
+    if (!inside) {
+      setHover(null);
+      return;
+    }
+    const time = tOf(x);
+    const freq = fTop - (y - plot.top) / plot.height * (fTop - fBottom);
+    const f = Math.round((time - data.times[0]) / data.frameStep);
+    const k = Math.round(freq / data.binWidth);
+    const value = f >= 0 && f < frames && k >= 0 && k < shownBins ? data.magnitude[f * data.bins + k] : NaN;
+    setHover({ x, y, time, freq, value });
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    const { x } = plotX(e);
+    if (dragStart !== null && Math.abs(x - dragStart) > 5 && onZoom) {
+      const [left, right] = [tOf(dragStart), tOf(x)].sort((a, b) => a - b);
+      onZoom(left, right);
+    } else if (onChartClick && x >= plot.left && x <= plot.left + plot.width) {
+      onChartClick(tOf(x));
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  return (
+    <div ref={containerRef} className="h-full w-full relative select-none">
+      <canvas
+        ref={canvasRef}
+        style={{ width: size.width, height: size.height }}
+        className="cursor-crosshair"
+        onMouseDown={(e) => setDragStart(plotX(e).x)}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => { setHover(null); setDragStart(null); setDragEnd(null); }}
+      />
+      {hover && !isNaN(hover.value) && (
+        <div
+          className="absolute pointer-events-none text-[10px] px-2 py-1 rounded text-white"
+          style={{ left: Math.min(hover.x + 12, size.width - 150), top: Math.max(0, hover.y - 40), backgroundColor: 'rgba(17, 24, 39, 0.9)', border: `1px solid ${gridColor}` }}
+        >
+          {hover.time.toFixed(2)} s · {hover.freq.toFixed(1)} Hz<br />
+          {config.scale === 'db'
+            ? `${(20 * Math.log10(Math.max(hover.value, 1e-12) / data.max)).toFixed(1)} dB`
+            : `${formatMagnitude(hover.value)} ${unit}`}
+        </div>
+      )}
+    </div>
+  );
+};
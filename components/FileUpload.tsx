@@ -1,25 +1,422 @@
-import React, { useRef } from 'react';
-import { parseCSV, processVibrationData } from '../utils/mathUtils';
-import { ProcessedDataPoint } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  readDelimitedTable, suggestColumnMapping, formatIssue, ImportError, DEFAULT_SAMPLE_RATE, ACCEL_UNIT_LABELS,
+  readWavHeader, readWavFrames, readBinary, defaultChannelMapping, detectFileKind, SAMPLE_FORMAT_BYTES
+} from '../utils/importUtils';
+import { isSessionFileName, readSession } from '../utils/sessionUtils';
+import { suggestUffMapping, uffChannelLabel } from '../utils/uffUtils';
+import {
+  ProcessedChannels, AccelUnit, RecordingInfo, DelimitedTable, ColumnMapping, ImportIssue, WavHeader, BinaryLayout, SampleFormat,
+  ImportSource, ImportWorkerRequest, ImportWorkerResponse, RawChannels, SessionFile, UffChannel
+} from '../types';
 
 interface FileUploadProps {
-  onDataLoaded: (data: ProcessedDataPoint[], fileName: string) => void;
+  // resampleTo: target rate (Hz) chosen before import, null keeps the recorded rate
+  onDataLoaded: (raw: RawChannels, processed: ProcessedChannels, fileName: string, info: RecordingInfo, resampleTo: number | null) => void;
+  onSessionLoaded: (session: SessionFile, data: RawChannels) => void;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
+// Options/mapping step state; only the head of the file is in memory at this point
+type PendingImport =
+  | { kind: 'text'; file: File; table: DelimitedTable; truncated: boolean; mapping: ColumnMapping }
+  | { kind: 'wav'; file: File; header: WavHeader; preview: Float64Array[]; scale: number; mapping: ColumnMapping }
+  | { kind: 'binary'; file: File; head: ArrayBuffer; layout: BinaryLayout; mapping: ColumnMapping }
+  | { kind: 'uff'; file: File; channels: UffChannel[]; mapping: ColumnMapping };
+
+// Bytes read on the main thread to sniff the format and build the preview
+const HEAD_BYTES = 256 * 1024;
+
+const DELIMITER_LABELS: Record<DelimitedTable['dialect']['delimiter'], string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+  '|': 'pipe',
+  'whitespace': 'spaces'
+};
+
+const SAMPLE_FORMATS: SampleFormat[] = ['int16', 'int24', 'int32', 'float32', 'float64', 'uint8'];
+
+const DEFAULT_BINARY_LAYOUT: BinaryLayout = {
+  channels: 3,
+  format: 'int16',
+  littleEndian: true,
+  headerBytes: 0,
+  scale: 1,
+  fs: DEFAULT_SAMPLE_RATE
+};
+
+const inputClass = "w-full text-xs p-1 rounded border border-gray-700 bg-gray-950 text-gray-100";
+
+const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, onSessionLoaded }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const [unitChoice, setUnitChoice] = useState<AccelUnit | 'auto'>('auto');
+  const [resampleTo, setResampleTo] = useState<string>('');
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [progress, setProgress] = useState<{ fileName: string; loaded: number; total: number } | null>(null);
+
+  const unitOverride = unitChoice === 'auto' ? undefined : unitChoice;
+
+  // Stop a running import if the component goes away
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  // Binary layouts are edited live, so re-decode the head on every layout change
+  const binaryHead = pending?.kind === 'binary' ? pending.head : null;
+  const binaryLayout = pending?.kind === 'binary' ? pending.layout : null;
+  const binarySize = pending?.kind === 'binary' ? pending.file.size : 0;
+  const decodedBinary = useMemo(() => {
+    if (!binaryHead || !binaryLayout) return null;
+    try {
+      return { channels: readBinary(binaryHead, binaryLayout, binarySize), error: null };
+    } catch (e) {
+      return { channels: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [binaryHead, binaryLayout, binarySize]);
+
+  const reportError = (e: unknown) => {
+    if (e instanceof ImportError) {
+      setIssues(e.issues);
+    } else {
+      setIssues([{ severity: 'error', message: e instanceof Error ? e.message : String(e) }]);
+    }
+  };
+
+  const cancelImport = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // Hand the whole file to the import worker; the result arrives as transferred typed arrays
+  const startImport = (file: File, source: ImportSource) => {
+    cancelImport();
+    setPending(null);
+    setIssues([]);
+    setProgress({ fileName: file.name, loaded: 0, total: file.size });
+
+    const worker = new Worker(new URL('../workers/importWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (e: MessageEvent<ImportWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        setProgress({ fileName: file.name, loaded: msg.loaded, total: msg.total });
+        return;
+      }
+      worker.terminate();
+      workerRef.current = null;
+      setProgress(null);
+      if (msg.type === 'done') {
+        onDataLoaded(msg.raw, msg.processed, file.name, msg.info, Number(resampleTo) > 0 ? Number(resampleTo) : null);
+      } else if (msg.type === 'channels') {
+        chooseUffChannels(file, msg.channels);
+      } else {
+        setIssues(msg.issues);
+      }
+    };
+    worker.onerror = (e) => {
+      cancelImport();
+      setIssues([{ severity: 'error', message: e.message || 'Import worker failed' }]);
+    };
+
+    const request: ImportWorkerRequest = { file, source, defaultFs: DEFAULT_SAMPLE_RATE, unitOverride };
+    worker.postMessage(request);
+  };
+
+  // Import straight away when the channels name one node's X/Y/Z, else let the user pick
+  const chooseUffChannels = (file: File, channels: UffChannel[]) => {
+    const { mapping, ambiguous } = suggestUffMapping(channels);
+    if (ambiguous) {
+      setPending({ kind: 'uff', file, channels, mapping });
+      return;
+    }
+    startImport(file, { kind: 'uff', mapping });
+  };
+
+  const sourceFor = (p: PendingImport): ImportSource => {
+    if (p.kind === 'text') return { kind: 'text', table: p.table, mapping: p.mapping };
+    if (p.kind === 'wav') return { kind: 'wav', header: p.header, scale: p.scale, mapping: p.mapping };
+    if (p.kind === 'uff') return { kind: 'uff', mapping: p.mapping };
+    return { kind: 'binary', layout: p.layout, mapping: p.mapping };
+  };
 
   const handleFile = async (file: File) => {
-    const text = await file.text();
+    setIssues([]);
+    setPending(null);
     try {
-      const raw = parseCSV(text, 1600);
-      const processed = processVibrationData(raw, 1600);
-      onDataLoaded(processed, file.name);
+      // Saved analysis sessions carry their own data and settings
+      if (isSessionFileName(file.name)) {
+        const { session, data } = await readSession(await file.text());
+        onSessionLoaded(session, data);
+        return;
+      }
+
+      const head = await file.slice(0, HEAD_BYTES).arrayBuffer();
+      const kind = detectFileKind(file.name, new Uint8Array(head, 0, Math.min(1024, head.byteLength)));
+
+      if (kind === 'wav') {
+        // Full-scale value is unknown until the user confirms it, so WAV always goes through the options step
+        const header = readWavHeader(head, file.size);
+        setPending({ kind: 'wav', file, header, preview: readWavFrames(head, header), scale: 1, mapping: defaultChannelMapping(header.channelCount).mapping });
+        return;
+      }
+
+      if (kind === 'uff') {
+        // Dataset headers are spread through the file, so the worker scans it for the channel list first
+        startImport(file, { kind: 'uffChannels' });
+        return;
+      }
+
+      if (kind === 'binary') {
+        setPending({ kind: 'binary', file, head, layout: DEFAULT_BINARY_LAYOUT, mapping: defaultChannelMapping(DEFAULT_BINARY_LAYOUT.channels).mapping });
+        return;
+      }
+
+      // Sniff dialect and headers from whole lines of the head only
+      const truncated = file.size > HEAD_BYTES;
+      let headText = new TextDecoder().decode(head);
+      if (truncated) {
+        const lastBreak = Math.max(headText.lastIndexOf('\n'), headText.lastIndexOf('\r'));
+        if (lastBreak > 0) headText = headText.slice(0, lastBreak);
+      }
+      const table = readDelimitedTable(headText);
+      const { mapping, ambiguous } = suggestColumnMapping(table.headers);
+      if (ambiguous) {
+        // Let the user confirm X/Y/Z before anything is loaded
+        setPending({ kind: 'text', file, table, truncated, mapping });
+        setIssues(table.issues);
+        return;
+      }
+      startImport(file, { kind: 'text', table, mapping });
     } catch (e) {
-      alert("Error parsing CSV. Ensure columns 'ax', 'ay', 'az' exist.");
+      reportError(e);
     }
   };
 
+  const updateMapping = (key: keyof ColumnMapping, value: string) => {
+    if (!pending) return;
+    const idx = value === '' ? null : Number(value);
+    setPending({
+      ...pending,
+      mapping: { ...pending.mapping, [key]: key === 'time' ? idx : (idx ?? -1) }
+    });
+  };
+
+  const updateLayout = (patch: Partial<BinaryLayout>) => {
+    if (pending?.kind !== 'binary') return;
+    const layout = { ...pending.layout, ...patch };
+    const mapping = layout.channels !== pending.layout.channels ? defaultChannelMapping(layout.channels).mapping : pending.mapping;
+    setPending({ ...pending, layout, mapping });
+  };
+
+  const renderIssues = () => issues.length > 0 && (
+    <ul className="mt-6 w-full max-w-xl max-h-48 overflow-y-auto rounded border border-gray-800 bg-gray-900/80 p-3 space-y-1 text-xs font-mono">
+      {issues.map((issue, idx) => (
+        <li key={idx} className={issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+          {issue.severity === 'error' ? '✖' : '⚠'} {formatIssue(issue)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (progress) {
+    const pct = progress.total > 0 ? Math.round(progress.loaded / progress.total * 100) : 0;
+    return (
+      <div className="flex flex-col items-center justify-center h-[80vh] px-4">
+        <div className="w-full max-w-md bg-gray-900 ring-1 ring-gray-800 rounded-lg p-6 space-y-4 text-gray-100">
+          <div className="flex justify-between text-sm">
+            <span className="font-bold truncate">{progress.fileName}</span>
+            <span className="font-mono text-gray-400">{pct}%</span>
+          </div>
+          <div className="h-2 rounded bg-gray-800 overflow-hidden">
+            <div className="h-full bg-teal-500 transition-all" style={{ width: `${pct}%` }}></div>
+          </div>
+          <div className="flex justify-between items-center text-xs text-gray-400">
+            <span>{(progress.loaded / 1048576).toFixed(1)} / {(progress.total / 1048576).toFixed(1)} MB</span>
+            <button onClick={cancelImport} className="px-3 py-1 rounded border border-gray-700 hover:text-white">
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (pending) {
+    const { mapping } = pending;
+
+    // Column names, units and first rows for the preview, whatever the source format
+    let headers: string[] = [];
+    let headerUnits: string[] = [];
+    let previewRows: { key: number; cells: string[] }[] = [];
+    let description = '';
+
+    if (pending.kind === 'text') {
+      const { table } = pending;
+      headers = table.headers;
+      headerUnits = table.headerUnits;
+      previewRows = table.rows.slice(0, 5).map(r => ({ key: r.line, cells: r.cells }));
+      description = `${DELIMITER_LABELS[table.dialect.delimiter]}-separated${table.dialect.decimalComma ? ', decimal comma' : ''}${table.dialect.hasHeader ? '' : ', no header row'} · ${table.rows.length}${pending.truncated ? '+' : ''} rows. The column headers are ambiguous, please choose which column is X, Y and Z.`;
+    } else if (pending.kind === 'uff') {
+      const { channels } = pending;
+      headers = channels.map(uffChannelLabel);
+      headerUnits = channels.map(c => c.units);
+      const rows = Math.min(5, ...channels.map(c => c.preview.length));
+      previewRows = Array.from({ length: rows }, (_, i) => ({ key: i, cells: channels.map(c => c.preview[i].toPrecision(6)) }));
+      description = `UFF dataset 58, ${channels.length} functions. X/Y/Z could not be identified from the node direction fields, please choose the channels.`;
+    } else {
+      const channels = pending.kind === 'wav' ? pending.preview : decodedBinary?.channels ?? [];
+      headers = channels.map((_, i) => `Channel ${i + 1}`);
+      headerUnits = channels.map(() => '');
+      const frames = channels[0]?.length ?? 0;
+      previewRows = Array.from({ length: Math.min(5, frames) }, (_, i) => ({ key: i, cells: channels.map(c => c[i].toPrecision(6)) }));
+      if (pending.kind === 'wav') {
+        const { header } = pending;
+        const totalFrames = Math.floor(header.dataLength / (SAMPLE_FORMAT_BYTES[header.format] * header.channelCount));
+        description = `WAV, ${header.format}, ${header.channelCount} channels, ${header.fs} Hz · ${totalFrames} frames. PCM is normalised to ±1 at full scale.`;
+      } else {
+        const { layout } = pending;
+        const totalFrames = Math.max(0, Math.floor((pending.file.size - layout.headerBytes) / (SAMPLE_FORMAT_BYTES[layout.format] * Math.max(1, layout.channels))));
+        description = `Raw binary, ${pending.file.size} bytes · ${totalFrames} frames. Set the layout until the preview shows sensible values.`;
+      }
+    }
+
+    const columnOptions = headers.map((h, i) => (
+      <option key={i} value={i}>{h}{headerUnits[i] ? ` [${headerUnits[i]}]` : ''}</option>
+    ));
+
+    return (
+      <div className="flex flex-col items-center justify-center h-[80vh] px-4">
+        <div className="w-full max-w-3xl bg-gray-900 ring-1 ring-gray-800 rounded-lg p-6 space-y-4 text-gray-100">
+          <div>
+            <h2 className="text-lg font-bold">{pending.kind === 'text' ? 'Map Columns' : 'Import Options'}</h2>
+            <p className="text-xs text-gray-400 mt-1">{pending.file.name} · {description}</p>
+          </div>
+
+          {pending.kind === 'binary' && (
+            <div className="grid grid-cols-3 gap-3">
+              <label className="text-xs text-gray-400 space-y-1">
+                <span className="block font-bold">Channels</span>
+                <input type="number" min={1} value={pending.layout.channels} onChange={(e) => updateLayout({ channels: Math.max(1, Math.floor(Number(e.target.value))) })} className={inputClass} />
+              </label>
+              <label className="text-xs text-gray-400 space-y-1">
+                <span className="block font-bold">Data type</span>
+                <select value={pending.layout.format} onChange={(e) => updateLayout({ format: e.target.value as SampleFormat })} className={inputClass}>
+                  {SAMPLE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </label>
+              <label className="text-xs text-gray-400 space-y-1">
+                <span className="block font-bold">Byte order</span>
+                <select value={pending.layout.littleEndian ? 'le' : 'be'} onChange={(e) => updateLayout({ littleEndian: e.target.value === 'le' })} className={inputClass}>
+                  <option value="le">Little-endian</option>
+                  <option value="be">Big-endian</option>
+                </select>
+              </label>
+              <label className="text-xs text-gray-400 space-y-1">
+                <span className="block font-bold">Header bytes</span>
+                <input type="number" min={0} value={pending.layout.headerBytes} onChange={(e) => updateLayout({ headerBytes: Math.max(0, Math.floor(Number(e.target.value))) })} className={inputClass} />
+              </label>
+              <label className="text-xs text-gray-400 space-y-1">
+                <span className="block font-bold">Sample rate (Hz)</span>
+                <input type="number" min={1} value={pending.layout.fs} onChange={(e) => updateLayout({ fs: Number(e.target.value) })} className={inputClass} />
+              </label>
+              <label className="text-xs text-gray-400 space-y-1">
+                <span className="block font-bold">Scale (per count)</span>
+                <input type="number" step="any" value={pending.layout.scale} onChange={(e) => updateLayout({ scale: Number(e.target.value) })} className={inputClass} />
+              </label>
+            </div>
+          )}
+
+          {pending.kind === 'wav' && (
+            <div className="grid grid-cols-3 gap-3">
+              <label className="text-xs text-gray-400 space-y-1">
+                <span className="block font-bold">Full-scale value</span>
+                <input type="number" step="any" value={pending.scale} onChange={(e) => setPending({ ...pending, scale: Number(e.target.value) })} className={inputClass} />
+              </label>
+            </div>
+          )}
+
+          {pending.kind !== 'text' && (
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="font-bold">Unit</span>
+              <select value={unitChoice} onChange={(e) => setUnitChoice(e.target.value as AccelUnit | 'auto')} className="text-xs p-1 rounded border border-gray-700 bg-gray-950 text-gray-100">
+                <option value="auto">{pending.kind === 'uff' ? 'Auto (from units label, else Gal)' : 'Gal (default)'}</option>
+                {(Object.keys(ACCEL_UNIT_LABELS) as AccelUnit[]).map(u => (
+                  <option key={u} value={u}>{ACCEL_UNIT_LABELS[u]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {decodedBinary?.error && (
+            <p className="text-xs font-mono text-red-400">✖ {decodedBinary.error}</p>
+          )}
+
+          <div className="grid grid-cols-4 gap-3">
+            {(['x', 'y', 'z'] as const).map(axis => (
+              <label key={axis} className="text-xs text-gray-400 space-y-1">
+                <span className="block font-bold">{axis.toUpperCase()} (a{axis})</span>
+                <select value={mapping[axis]} onChange={(e) => updateMapping(axis, e.target.value)} className={inputClass}>
+                  {columnOptions}
+                </select>
+              </label>
+            ))}
+            {pending.kind === 'text' && (
+              <label className="text-xs text-gray-400 space-y-1">
+                <span className="block font-bold">Time (optional)</span>
+                <select value={mapping.time ?? ''} onChange={(e) => updateMapping('time', e.target.value)} className={inputClass}>
+                  <option value="">None</option>
+                  {columnOptions}
+                </select>
+              </label>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-800">
+                  {headers.map((h, i) => {
+                    const role = i === mapping.x ? 'X' : i === mapping.y ? 'Y' : i === mapping.z ? 'Z' : i === mapping.time ? 'T' : '';
+                    return (
+                      <th key={i} className={`text-left p-1 ${role ? 'text-teal-400' : ''}`}>
+                        {h}{role && ` → ${role}`}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {previewRows.map(r => (
+                  <tr key={r.key} className="border-b border-gray-800/50">
+                    {r.cells.map((c, i) => <td key={i} className="p-1">{c}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => { setPending(null); setIssues([]); }}
+              className="px-4 py-1.5 text-sm rounded border border-gray-700 text-gray-400 hover:text-white"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => startImport(pending.file, sourceFor(pending))}
+              className="px-4 py-1.5 text-sm rounded font-bold bg-teal-600 hover:bg-teal-500 text-white"
+            >
+              Load
+            </button>
+          </div>
+        </div>
+        {renderIssues()}
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col items-center justify-center h-[80vh]">
       <div className="relative group">
@@ -32,17 +429,46 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
           </svg>
           <span className="text-xl text-gray-100 font-bold">Upload Vibration Data</span>
-          <span className="text-sm text-gray-400">Supports .csv (ax, ay, az)</span>
+          <span className="text-sm text-gray-400">Supports .csv / .txt / .tsv, .wav, raw .bin and UFF 58 .uff / .unv (Gal, g, mg or m/s²), or a saved .vibra.json session</span>
         </button>
       </div>
+      <div className="mt-6 flex items-center gap-2 text-sm text-gray-400">
+        <label htmlFor="unit-choice">Acceleration unit</label>
+        <select
+          id="unit-choice"
+          value={unitChoice}
+          onChange={(e) => setUnitChoice(e.target.value as AccelUnit | 'auto')}
+          className="text-xs p-1 rounded border border-gray-700 bg-gray-900 text-gray-100"
+        >
+          <option value="auto">Auto (from header, else Gal)</option>
+          {(Object.keys(ACCEL_UNIT_LABELS) as AccelUnit[]).map(u => (
+            <option key={u} value={u}>{ACCEL_UNIT_LABELS[u]}</option>
+          ))}
+        </select>
+        <label htmlFor="resample-to" className="ml-4">Resample to</label>
+        <input
+          id="resample-to"
+          type="number"
+          min="1"
+          placeholder="Original"
+          value={resampleTo}
+          onChange={(e) => setResampleTo(e.target.value)}
+          className="w-24 text-xs p-1 rounded border border-gray-700 bg-gray-900 text-gray-100"
+        />
+        <span>Hz</span>
+      </div>
+      {renderIssues()}
       <input
         type="file"
         ref={fileInputRef}
-        onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
-        accept=".csv"
+        onChange={(e) => {
+          if (e.target.files?.[0]) handleFile(e.target.files[0]);
+          e.target.value = '';
+        }}
+        accept=".csv,.txt,.tsv,.dat,.wav,.bin,.raw,.uff,.unv,.json"
         className="hidden"
       />
-      
+
       <div className="mt-8 max-w-md text-center text-gray-500 text-sm">
         <p>Drag & Drop or Click to Upload.</p>
         <p className="mt-2">The system will automatically calculate Velocity (Vz) and Displacement (Sz) via integration.</p>
@@ -51,4 +477,4 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
   );
 };
 
-export default FileUpload;
\ No newline at end of file
+export default FileUpload;
@@ -0,0 +1,183 @@
+"""Reference outputs for the filter tests, from scipy.signal.
+
+Writes utils/__fixtures__/scipy-reference.json. Run with numpy and scipy installed:
+    python scripts/scipy_reference.py
+
+- filtfilt: zero-phase filtering as dspUtils does it, one biquad section at a time with odd
+  extension and steady-state initial conditions (scipy's defaults), and padlen set to the
+  padding dspUtils uses: the section's settling time (pole radius decayed to 1e-3), at least
+  9 samples (scipy's 3 * max(len(a), len(b))). Sections are built from scipy's analog
+  prototypes and bilinear transform, split into biquads the way dspUtils splits them.
+- weighting: ISO 8041 Wk, Wd and Wb networks (pre-warped bilinear sections), run causally
+  with lfilter from steady state.
+- thirdOctave: band RMS of causal order-4 Butterworth band-passes run over the whole
+  recording, for checking the settling pre-roll octaveUtils starts the filters with.
+"""
+import json
+import math
+import os
+
+import numpy as np
+import scipy
+from scipy import signal
+
+SETTLING_TOLERANCE = 1e-3
+
+
+def rounded(values):
+    return [float(f'{v:.12g}') for v in values]
+
+
+def padding(a, n):
+    radius = max(abs(np.roots(a)))
+    settling = 0 if radius <= 0 else math.ceil(math.log(SETTLING_TOLERANCE) / math.log(radius))
+    return min(n - 1, max(9, settling))
+
+
+def ride(fs, seconds):
+    # Synthetic run: 1 m/s^3 jerk-limited profile (Gal), sensor offset, car vibration and noise
+    t = np.arange(int(fs * seconds)) / fs
+    jerk = np.select(
+        [(t > 2) & (t < 3), (t > 4) & (t < 5), (t > 10) & (t < 11), (t > 12) & (t < 13)],
+        [100.0, -100.0, -100.0, 100.0], 0.0)
+    accel = np.cumsum(jerk) / fs
+    vibration = 4 * np.sin(2 * np.pi * 1.3 * t) + 2.5 * np.sin(2 * np.pi * 9.7 * t + 0.4)
+    noise = np.random.default_rng(18738).normal(0, 0.8, t.size)
+    return accel + vibration + noise + 1.7
+
+
+# --- Section design ---
+
+def butter_sections(btype, cutoff, order, fs):
+    # Order/2 biquads with Q_k = 1 / (2 cos((2k+1) pi / 2N)), cut-off pre-warped
+    wc = 2 * fs * math.tan(math.pi * cutoff / fs)
+    sections = []
+    for k in range(order // 2):
+        q = 1 / (2 * math.cos((2 * k + 1) * math.pi / (2 * order)))
+        num = [0, 0, wc ** 2] if btype == 'lowpass' else [1, 0, 0]
+        sections.append(signal.bilinear(num, [1, wc / q, wc ** 2], fs))
+    return sections
+
+
+def band_sections(f1, f2, order, fs):
+    # Each upper-half prototype pole gives two band-pass pole pairs, one biquad each,
+    # with numerator g*s for unity gain at the centre; edges pre-warped
+    w1, w2 = (2 * fs * math.tan(math.pi * f / fs) for f in (f1, f2))
+    wo, bw = math.sqrt(w1 * w2), w2 - w1
+    _, poles, _ = signal.buttap(order)
+    sections = []
+    for p in poles[:order // 2]:
+        _, band_poles, _ = signal.lp2bp_zpk([], [p], 1, wo, bw)
+        for r in band_poles:
+            den = [1, -2 * r.real, abs(r) ** 2]
+            gain = abs(np.polyval(den, 1j * wo)) / wo
+            sections.append(signal.bilinear([gain, 0], den, fs))
+    return sections
+
+
+# ISO 8041 parameters (f in Hz)
+WEIGHTING = {
+    'Wk': dict(f1=0.4, f2=100, f3=12.5, f4=12.5, q4=0.63, f5=2.37, q5=0.91, f6=3.35, q6=0.91, k=1),
+    'Wd': dict(f1=0.4, f2=100, f3=2.0, f4=2.0, q4=0.63, k=1),
+    'Wb': dict(f1=0.4, f2=100, f3=16, f4=16, q4=0.55, f5=2.5, q5=0.9, f6=4.0, q6=0.95, k=1.024),
+}
+
+
+def weighting_sections(curve, fs):
+    p = WEIGHTING[curve]
+    w = lambda f: 2 * math.pi * f
+
+    def bilinear(num, den, f):
+        # Pre-warped at f (kept below 0.45 fs), i.e. s = c (z - 1) / (z + 1) with c = w / tan(w / 2 fs)
+        fp = min(f, 0.45 * fs)
+        return signal.bilinear(num, den, w(fp) / math.tan(math.pi * fp / fs) / 2)
+
+    # Band-limiting high-pass and low-pass (Q = 1/sqrt 2), the low-pass only below fs/2
+    sections = [bilinear([1, 0, 0], [1, w(p['f1']) * math.sqrt(2), w(p['f1']) ** 2], p['f1'])]
+    if p['f2'] < fs / 2:
+        sections.append(bilinear([w(p['f2']) ** 2], [1, w(p['f2']) * math.sqrt(2), w(p['f2']) ** 2], p['f2']))
+    # Acceleration-velocity transition
+    sections.append(bilinear([1 / w(p['f3']), 1], [1 / w(p['f4']) ** 2, 1 / (p['q4'] * w(p['f4'])), 1], p['f4']))
+    # Upward step
+    if 'f5' in p:
+        g = (p['f5'] / p['f6']) ** 2
+        sections.append(bilinear(
+            [g / w(p['f5']) ** 2, g / (p['q5'] * w(p['f5'])), g],
+            [1 / w(p['f6']) ** 2, 1 / (p['q6'] * w(p['f6'])), 1], p['f5']))
+    b, a = sections[0]
+    sections[0] = (b * p['k'], a)
+    return sections
+
+
+# --- Cases ---
+
+def filtfilt_case(name, inputs, source, btype, order, freq, freq_high=0):
+    fs, x = inputs[source]['fs'], np.array(inputs[source]['values'])
+    sections = band_sections(freq, freq_high, order, fs) if btype == 'bandpass' else butter_sections(btype, freq, order, fs)
+    for b, a in sections:
+        x = signal.filtfilt(b, a, x, padtype='odd', padlen=padding(a, len(x)))
+    return {'name': name, 'input': source, 'type': btype, 'order': order, 'freq': freq, 'freqHigh': freq_high, 'output': rounded(x)}
+
+
+def weighting_case(inputs, source, curve):
+    fs, x = inputs[source]['fs'], np.array(inputs[source]['values'])
+    for b, a in weighting_sections(curve, fs):
+        x = signal.lfilter(b, a, x, zi=signal.lfilter_zi(b, a) * x[0])[0]
+    return {'name': f'{source} {curve}', 'input': source, 'curve': curve, 'output': rounded(x)}
+
+
+def third_octave_case(inputs, source, start, end):
+    # 1/3-octave bands (IEC 61260-1, base 10) from 1 Hz while the upper edge stays below 0.45 fs
+    fs, x = inputs[source]['fs'], np.array(inputs[source]['values'])
+    t = np.arange(len(x)) / fs
+    i0, i1 = np.searchsorted(t, start, 'left'), np.searchsorted(t, end, 'right')
+    ratio = 10 ** 0.3
+    levels = []
+    for band in range(-30, -10):
+        center = 1000 * ratio ** (band / 3)
+        lower, upper = center * ratio ** (-1 / 6), center * ratio ** (1 / 6)
+        if upper > 0.45 * fs:
+            break
+        sos = signal.butter(4, [lower, upper], btype='bandpass', fs=fs, output='sos')
+        y = signal.sosfilt(sos, x, zi=signal.sosfilt_zi(sos) * x[0])[0]
+        levels.append({'center': center, 'rms': float(np.sqrt(np.mean(y[i0:i1] ** 2)))})
+    return {'name': f'{source} {start}-{end} s', 'input': source, 'start': start, 'end': end, 'levels': levels}
+
+
+def main():
+    t = np.arange(256) / 128
+    inputs = {
+        'step': {'fs': 128, 'values': np.where(t >= 0.5, 1.0, 0.0)},
+        'sine': {'fs': 128, 'values': np.sin(2 * np.pi * 2 * t + 0.3) + 0.5},
+        'ride': {'fs': 64, 'values': ride(64, 16)},
+        'ride 256 Hz': {'fs': 256, 'values': ride(256, 4)},
+        'long ride': {'fs': 32, 'values': ride(32, 40)},
+    }
+    for source in inputs.values():
+        source['values'] = rounded(source['values'])
+
+    filtfilt = [
+        filtfilt_case('step highpass', inputs, 'step', 'highpass', 2, 0.5),
+        filtfilt_case('step lowpass', inputs, 'step', 'lowpass', 2, 10),
+        filtfilt_case('sine highpass', inputs, 'sine', 'highpass', 2, 0.5),
+        filtfilt_case('sine lowpass', inputs, 'sine', 'lowpass', 2, 10),
+        filtfilt_case('ride highpass', inputs, 'ride', 'highpass', 2, 0.5),
+        filtfilt_case('ride lowpass', inputs, 'ride', 'lowpass', 2, 10),
+        filtfilt_case('ride highpass order 4', inputs, 'ride', 'highpass', 4, 0.5),
+        filtfilt_case('ride bandpass order 4', inputs, 'ride', 'bandpass', 4, 1, 10),
+        filtfilt_case('ride bandpass order 8', inputs, 'ride', 'bandpass', 8, 0.5, 5),
+    ]
+    weighting = [weighting_case(inputs, 'ride 256 Hz', curve) for curve in ('Wk', 'Wd', 'Wb')]
+    third_octave = [third_octave_case(inputs, 'long ride', 34, 38)]
+
+    out = os.path.join(os.path.dirname(__file__), '..', 'utils', '__fixtures__', 'scipy-reference.json')
+    with open(out, 'w') as f:
+        json.dump({
+            'generator': 'scripts/scipy_reference.py', 'scipy': scipy.__version__,
+            'inputs': inputs, 'filtfilt': filtfilt, 'weighting': weighting, 'thirdOctave': third_octave,
+        }, f)
+        f.write('\n')
+
+
+if __name__ == '__main__':
+    main()
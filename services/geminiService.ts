@@ -1,5 +1,6 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
+import { RecordingMetadata } from "../types";
 
 const SYSTEM_INSTRUCTION = `
 You are an expert Elevator Safety and Vibration Analyst. 
@@ -21,11 +22,28 @@ Provide a concise assessment:
 3. Recommendations: Bullet points on what to check (e.g., guide rails, roller guides, motor balance).
 `;
 
+// Only the fields that were filled in, so the model is not told about empty values
+const describeMetadata = (metadata?: RecordingMetadata): string => {
+  if (!metadata) return '';
+  const lines = [
+    metadata.elevatorId && `Elevator ID: ${metadata.elevatorId}`,
+    metadata.site && `Site: ${metadata.site}`,
+    metadata.ratedSpeed !== null && `Rated Speed: ${metadata.ratedSpeed} m/s`,
+    metadata.ratedAcceleration !== null && `Rated Acceleration: ${metadata.ratedAcceleration} m/s^2`,
+    metadata.loadKg !== null && `Car Load: ${metadata.loadKg} kg`,
+    metadata.direction && `Travel Direction: ${metadata.direction}`,
+    (metadata.startFloor || metadata.stopFloor) && `Floors: ${metadata.startFloor || '?'} -> ${metadata.stopFloor || '?'}`,
+    metadata.date && `Test Date: ${metadata.date}`
+  ].filter(Boolean);
+  return lines.length > 0 ? `Run details:\n    ${lines.join('\n    ')}` : '';
+};
+
 export const analyzeWithGemini = async (
   stats: any, 
   fftPeak: { freq: number, mag: number },
   userApiKey?: string,
-  userModelName?: string
+  userModelName?: string,
+  metadata?: RecordingMetadata
 ): Promise<any> => {
   try {
     // Prefer user provided key, then env
@@ -43,6 +61,7 @@ export const analyzeWithGemini = async (
     RMS: ${stats.rms.toFixed(4)}
     Peak Amplitude: ${stats.peakVal.toFixed(4)}
     Dominant Frequency: ${fftPeak.freq.toFixed(2)} Hz with Magnitude ${fftPeak.mag.toFixed(2)}
+    ${describeMetadata(metadata)}
 
     Is this normal?
     `;
@@ -0,0 +1,36 @@
+import { DevicePreset } from "../types";
+
+// Orientation presets per logger, kept in the browser so the same device is always corrected the same way
+const STORAGE_KEY = 'mese-vibration.devicePresets';
+
+export const loadDevicePresets = (): DevicePreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(p => p && typeof p.deviceId === 'string' && p.orientation) : [];
+  } catch (e) {
+    console.error("Could not read device presets", e);
+    return [];
+  }
+};
+
+const storeDevicePresets = (presets: DevicePreset[]): DevicePreset[] => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.error("Could not save device presets", e);
+  }
+  return presets;
+};
+
+// Insert or replace the preset for preset.deviceId; returns the updated list
+export const saveDevicePreset = (preset: DevicePreset): DevicePreset[] => {
+  const others = loadDevicePresets().filter(p => p.deviceId !== preset.deviceId);
+  return storeDevicePresets([...others, preset].sort((a, b) => a.deviceId.localeCompare(b.deviceId)));
+};
+
+export const deleteDevicePreset = (deviceId: string): DevicePreset[] =>
+  storeDevicePresets(loadDevicePresets().filter(p => p.deviceId !== deviceId));
+
+export const findDevicePreset = (deviceId: string | undefined): DevicePreset | undefined =>
+  deviceId ? loadDevicePresets().find(p => p.deviceId === deviceId) : undefined;
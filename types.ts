@@ -6,9 +6,214 @@ export interface RawDataPoint {
   az: number; // Gals
 }
 
+export interface SampleRateInfo {
+  fs: number; // Hz
+  source: 'timeColumn' | 'header' | 'manual' | 'default'; // Where fs was taken from
+  jitter: number; // RMS deviation of the sample interval, relative to 1/fs (0 = perfectly uniform)
+  isJittery: boolean; // jitter exceeds tolerance, spectral/integration results may be off
+}
+
+export type AccelUnit = 'gal' | 'g' | 'mg' | 'mps2';
+
+export interface UnitInfo {
+  unit: AccelUnit; // Unit the file was recorded in (values are converted to Gals on import)
+  source: 'header' | 'manual' | 'default';
+}
+
+export interface ImportIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  row?: number;    // 1-based line number in the source file
+  column?: string; // Header of the offending column
+}
+
+export interface CsvDialect {
+  delimiter: ',' | ';' | '\t' | '|' | 'whitespace';
+  decimalComma: boolean; // European "1,25" decimals
+  hasHeader: boolean;
+}
+
+// Delimited text split into cells, before any column has been assigned a meaning
+export interface DelimitedTable {
+  dialect: CsvDialect;
+  headers: string[];     // Column names without unit suffix (generated "Col N" when headerless)
+  headerUnits: string[]; // Unit text from "az[g]" style suffixes or a units row ('' if none)
+  preamble: string[];    // Comment / metadata lines above the data
+  rows: { line: number; cells: string[] }[];
+  issues: ImportIssue[];
+}
+
+export interface ColumnMapping {
+  x: number; // Column index for ax
+  y: number; // Column index for ay
+  z: number; // Column index for az
+  time: number | null; // Optional time/timestamp column
+}
+
+export type SampleFormat = 'uint8' | 'int16' | 'int24' | 'int32' | 'float32' | 'float64';
+
+// Layout of a headerless/fixed-header packed binary capture
+export interface BinaryLayout {
+  channels: number;
+  format: SampleFormat;
+  littleEndian: boolean;
+  headerBytes: number; // Bytes to skip before the first frame
+  scale: number;       // Stored value x scale = acceleration in the selected unit
+  fs: number;          // Hz (binary files carry no time base)
+}
+
+export interface WavHeader {
+  channelCount: number;
+  fs: number;
+  format: SampleFormat;
+  dataStart: number;  // Byte offset of the first frame
+  dataLength: number; // Bytes of sample data
+}
+
+// Header of one UFF dataset 58 (function data) record
+export interface UffChannel {
+  index: number; // position among the file's dataset 58 records
+  label: string; // ID line 1
+  functionType: number; // 1 = time response, 0 = general
+  node: number; // response node
+  direction: number; // response direction: ±1..3 = ±X/Y/Z, 0 = scalar
+  dataType: number; // ordinate specific data type, 12 = acceleration
+  units: string; // ordinate units label
+  xType: number; // abscissa specific data type, 17 = time, 18 = frequency
+  xUnits: string;
+  points: number;
+  even: boolean; // evenly spaced abscissa
+  dx: number; // abscissa increment (even spacing only)
+  complex: boolean;
+  preview: number[]; // first few ordinate values
+}
+
+export interface RecordingInfo {
+  sampleRate: SampleRateInfo;
+  unit: UnitInfo;
+  issues: ImportIssue[]; // Non-fatal problems found while importing (skipped rows etc.)
+  deviceId?: string; // Logger serial / name from the file header, used to pick an orientation preset
+  metadata?: Partial<RecordingMetadata>; // Run details found in the file header
+}
+
+// Structured description of a test run, for reports, comparisons and AI context
+export interface RecordingMetadata {
+  elevatorId: string; // installation / elevator ID
+  site: string; // site address
+  ratedSpeed: number | null; // m/s
+  ratedAcceleration: number | null; // m/s^2
+  loadKg: number | null; // car load during the run
+  direction: 'up' | 'down' | '';
+  startFloor: string;
+  stopFloor: string;
+  sensorSerial: string;
+  technician: string;
+  date: string; // YYYY-MM-DD
+}
+
+export interface ParsedRecording extends RecordingInfo {
+  data: RawChannels;
+}
+
+// How interruptions in the time base are handled before integration
+export type GapRepairMode = 'interpolate' | 'split' | 'none';
+
+export interface TimeGap {
+  time: number; // s, last sample before the gap
+  duration: number; // s, interval between the samples either side
+  missing: number; // samples expected inside the gap at the nominal rate
+}
+
+export interface DataQualityReport {
+  inputSamples: number;
+  outputSamples: number;
+  nonMonotonic: number; // stamps earlier than their predecessor
+  duplicates: number; // repeated stamps (same time as the previous sample)
+  gapCount: number;
+  gaps: TimeGap[]; // longest first, capped for display
+  missingSamples: number; // total across all gaps
+  largeGaps: number; // gaps long enough to split the recording at
+  segments: { start: number; end: number; samples: number }[]; // stretches between large gaps (original time)
+  // What was done
+  mode: GapRepairMode;
+  segmentIndex: number; // segment kept when mode is 'split'
+  sorted: boolean;
+  duplicatesRemoved: number;
+  filledSamples: number; // grid points that fell inside a gap and were interpolated
+  resampled: boolean; // samples were moved onto a uniform 1/fs grid
+}
+
+// Describes how the import worker should decode a file once the user has confirmed the options
+export type ImportSource =
+  | { kind: 'text'; table: DelimitedTable; mapping: ColumnMapping }
+  | { kind: 'wav'; header: WavHeader; scale: number; mapping: ColumnMapping }
+  | { kind: 'binary'; layout: BinaryLayout; mapping: ColumnMapping }
+  | { kind: 'uff'; mapping: ColumnMapping } // mapping indexes the file's dataset 58 records
+  | { kind: 'uffChannels' }; // Only list the dataset 58 headers, so X/Y/Z can be picked
+
+export interface ImportWorkerRequest {
+  file: File;
+  source: ImportSource;
+  defaultFs: number;
+  unitOverride?: AccelUnit;
+}
+
+export type ImportWorkerResponse =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'done'; raw: RawChannels; processed: ProcessedChannels; info: RecordingInfo } // raw as imported, processed integrated from it
+  | { type: 'channels'; channels: UffChannel[] }
+  | { type: 'error'; issues: ImportIssue[] };
+
 export interface ProcessedDataPoint extends RawDataPoint {
   vz: number; // m/s
   sz: number; // m
+  jz: number; // m/s³
+}
+
+// Columnar storage: one typed array per channel, index-aligned.
+// Used for whole recordings; point objects are only built for the (downsampled) chart data.
+export interface RawChannels {
+  time: Float64Array; // s
+  ax: Float64Array;   // Gals
+  ay: Float64Array;   // Gals
+  az: Float64Array;   // Gals
+}
+
+export interface ProcessedChannels extends RawChannels {
+  vz: Float64Array; // m/s
+  sz: Float64Array; // m
+  jz: Float64Array; // m/s³, from az low-passed at 5 Hz
+  azMotion?: Float64Array; // Gals, Z before frequency weighting; only present when az is weighted (vz, sz, jz and kinematics use it)
+  drift?: DriftReport; // How vz / sz were corrected (whole recordings only, not slices)
+}
+
+// --- Integration ---
+
+// 'zeroVelocity': vz = 0 while the car stands before and after the run
+// 'polynomial': subtract a polynomial fitted to vz in those stationary segments
+// 'highpass': high-pass az before and vz after the first integration
+export type DriftCorrectionMode = 'none' | 'zeroVelocity' | 'polynomial' | 'highpass';
+
+export interface DriftCorrection {
+  mode: DriftCorrectionMode;
+  polynomialOrder: number; // 1-5
+  highPassFreq: number; // Hz
+}
+
+// Sample index range [start, end)
+export interface SampleSpan {
+  start: number;
+  end: number;
+}
+
+export interface DriftReport {
+  mode: DriftCorrectionMode;
+  motionStart: number | null; // s, null when no run was detected
+  motionEnd: number | null; // s
+  restVelocityBefore: number; // m/s, largest |vz| while standing with plain integration
+  restVelocity: number; // m/s, the same after correction
+  endVelocity: number; // m/s, after correction
+  travel: number; // m, sz at the end
 }
 
 export interface FFTResult {
@@ -16,7 +221,120 @@ export interface FFTResult {
   magnitude: number;
 }
 
-export type DataAxis = 'ax' | 'ay' | 'az' | 'vz' | 'sz';
+export type WindowFunction = 'rectangular' | 'hann' | 'hamming' | 'flattop';
+
+// Peak amplitude per line (unit) or power spectral density (unit²/Hz)
+export type SpectrumScaling = 'amplitude' | 'psd';
+
+export interface SpectrumConfig {
+  window: WindowFunction;
+  segmentLength: number | null; // samples per Welch segment, null = the whole analysis window
+  overlap: number; // fraction of a segment shared with the next, 0-0.9
+  scaling: SpectrumScaling;
+  zeroPadding: number; // FFT length multiple, 1 = next power of two
+  freqMin: number; // Hz
+  freqMax: number | null; // Hz, null = fs/2
+}
+
+export interface SpectrumResult {
+  data: FFTResult[];
+  rbw: number; // Hz, equivalent noise bandwidth of the window
+  binWidth: number; // Hz, line spacing after zero padding
+  segments: number; // averaged segments
+}
+
+export interface CrossSpectrumPoint {
+  frequency: number; // Hz
+  magnitude: number; // cross amplitude or CSD, per SpectrumConfig.scaling
+  phaseDeg: number; // phase of channel B relative to A, ±180°
+  coherence: number; // magnitude-squared, 0-1
+}
+
+export interface CrossSpectrumResult extends Omit<SpectrumResult, 'data'> {
+  data: CrossSpectrumPoint[];
+}
+
+export type SpectrogramColorMap = 'viridis' | 'inferno' | 'gray';
+
+export interface SpectrogramConfig {
+  window: WindowFunction;
+  segmentLength: number; // samples per frame
+  overlap: number; // fraction shared with the next frame, 0-0.9
+  scale: 'db' | 'linear';
+  dynamicRange: number; // dB below the strongest cell mapped to the bottom colour
+  colorMap: SpectrogramColorMap;
+  freqMax: number | null; // Hz, null = fs/2
+}
+
+export interface Spectrogram {
+  times: Float64Array; // s, centre of each frame
+  frameStep: number; // s between frames
+  binWidth: number; // Hz
+  bins: number; // lines per frame, from 0 Hz
+  magnitude: Float32Array; // frames × bins, amplitude per line (unit)
+  max: number; // strongest cell
+}
+
+// 1/3-octave band (IEC 61260-1, base 10)
+export interface OctaveBand {
+  nominal: number; // Hz, preferred label (1, 1.25, 1.6 …)
+  center: number; // Hz, exact mid-band frequency
+  lower: number; // Hz
+  upper: number; // Hz
+}
+
+export interface OctaveBandLevel extends OctaveBand {
+  x: number; // RMS, Gal
+  y: number;
+  z: number;
+}
+
+// Time span the band levels are computed over
+export type OctaveSource = 'window' | 'constVel';
+
+// FFT panel tabs: magnitude spectrum, envelope (demodulated) spectrum, or cross-spectrum between two channels
+export type SpectrumMode = 'fft' | 'envelope' | 'cross';
+
+export interface EnvelopeConfig {
+  bandCenter: number; // Hz, resonance excited by the fault impacts
+  bandWidth: number; // Hz
+  harmonics: number; // roller fault frequency multiples to mark
+}
+
+// Drive and guide geometry the component frequencies are calculated from
+export interface ElevatorConfig {
+  carSpeed: number | null; // m/s, null = mean |VZ| in the analysis window
+  sheaveDiameter: number; // mm
+  ropingRatio: number; // 1 for 1:1, 2 for 2:1
+  railLength: number; // m, guide rail section between joints
+  rollerDiameter: number; // mm
+  motorPoles: number; // gearless machine, turning with the sheave
+}
+
+export type ElevatorComponent = 'sheave' | 'motorPole' | 'railJoint' | 'roller';
+
+export interface SpectralPeak {
+  frequency: number; // Hz, interpolated between lines
+  magnitude: number;
+  snrDb: number; // above the local noise floor
+  family: number | null; // harmonic family index
+  order: number | null; // harmonic number within the family
+  match: { component: ElevatorComponent; harmonic: number } | null;
+}
+
+export interface HarmonicFamily {
+  fundamental: number; // Hz
+  members: number; // peaks in the family
+  match: { component: ElevatorComponent; harmonic: number } | null;
+}
+
+export interface FilterResponsePoint {
+  frequency: number; // Hz
+  magnitudeDb: number;
+  phaseDeg: number; // Wrapped to ±180°
+}
+
+export type DataAxis = 'ax' | 'ay' | 'az' | 'vz' | 'sz' | 'jz';
 
 export interface Point {
   time: number;
@@ -44,6 +362,7 @@ export interface ElevatorBoundaries {
   t2: number; // Const vel end
   t3: number; // Motion end
   isValid: boolean;
+  isManual?: boolean; // Set by hand (Lim lines dragged or times typed)
 }
 
 export interface IsoAxisStats {
@@ -57,6 +376,50 @@ export interface IsoStats {
   z: IsoAxisStats;
 }
 
+// Acceleration or deceleration phase (az low-passed at 10 Hz, as ISO 18738-1 evaluates it)
+export interface PhaseKinematics {
+  duration: number; // s
+  max: number; // Gal, largest |a|
+  a95: number; // Gal, |a| not exceeded for 95% of the phase
+}
+
+// Run profile between the ISO boundaries
+export interface KinematicSummary {
+  accel: PhaseKinematics; // t0-t1
+  decel: PhaseKinematics; // t2-t3
+  constVelDuration: number; // s, t1-t2
+  runDuration: number; // s, t0-t3
+  maxJerk: Point; // m/s³, largest |jz| over t0-t3 (signed value)
+  maxVelocity: number; // m/s, largest |vz| over t0-t3
+  v95: number; // m/s, |vz| not exceeded for 95% of t1-t2
+}
+
+export type RunDirection = 'up' | 'down';
+
+// One trip of a recording that holds several, with its own ISO evaluation
+export interface LiftRun {
+  start: number; // s, segment start (middle of the stop before it, or the recording start)
+  end: number; // s, segment end
+  direction: RunDirection; // Sign of the travel, Z pointing up
+  distance: number; // m, |sz| travelled
+  boundaries: ElevatorBoundaries;
+  isoStats: IsoStats;
+  kinematics: KinematicSummary;
+}
+
+// Manual Lim 0-3 of one run, with the run's span when they were set. Matched back to a run by overlap,
+// since the stops that bound a run move when filters, drift correction or resampling change vz.
+export interface RunBoundaryOverride {
+  start: number; // s
+  end: number; // s
+  boundaries: ElevatorBoundaries;
+}
+
+export interface BoundaryOverrides {
+  all?: ElevatorBoundaries; // Whole recording
+  runs: RunBoundaryOverride[];
+}
+
 export interface AIAnalysisResult {
   status: 'safe' | 'warning' | 'danger' | 'unknown';
   summary: string;
@@ -82,13 +445,117 @@ export interface ThemeConfig {
     az: string;
     vz: string;
     sz: string;
+    jz: string;
   };
 }
 
+// ISO 2631-1 / ISO 8041 weighting curves: Wk vertical, Wd horizontal, Wb vertical (rail, ISO 2631-4)
+export type WeightingCurve = 'Wk' | 'Wd' | 'Wb';
+
+export type FilterStageType = 'lowpass' | 'highpass' | 'bandpass' | 'bandstop' | 'notch';
+
+export interface FilterStage {
+  type: FilterStageType;
+  enabled: boolean;
+  order: 2 | 4 | 6 | 8; // Butterworth order per edge (not used by notch)
+  freq: number; // Hz: cutoff, notch centre or lower band edge
+  freqHigh: number; // Hz: upper band edge (band-pass / band-stop)
+  q: number; // Notch quality factor (centre / bandwidth)
+}
+
 export interface FilterConfig {
   enabled: boolean;
-  highPassFreq: number; // Hz
-  lowPassFreq: number; // Hz
-  isStandardWeighting: boolean; // Just a UI flag
+  stages: FilterStage[]; // Applied in order, zero-phase
+  isStandardWeighting: boolean; // Frequency weighting on all axes (Z: verticalWeighting, X/Y: Wd)
+  verticalWeighting: 'Wk' | 'Wb';
   targetAxes: 'all' | 'z-only'; // Selective filtering
 }
+
+// --- Sensor Orientation ---
+
+export type SensorAxis = 'x' | 'y' | 'z';
+
+export interface AxisMap {
+  from: SensorAxis; // sensor axis feeding this car axis
+  sign: 1 | -1;
+}
+
+export interface OrientationConfig {
+  remap: Record<SensorAxis, AxisMap>; // car axis <- ±sensor axis (swap / sign flip), applied first
+  levelFromGravity: boolean; // rotate so gravity in the pre-run stationary segment points along +z
+  stationarySeconds: number; // length of the pre-run segment used for the gravity estimate
+}
+
+export interface OrientationResult {
+  rotation: number[] | null; // 3x3 row-major matrix applied after the remap
+  gravity: [number, number, number] | null; // Gal, mean of the stationary segment after the remap
+  tiltDeg: number | null; // angle between the measured gravity vector and +z
+  warning: 'noGravity' | 'moving' | 'notPermutation' | null;
+}
+
+export interface DevicePreset {
+  deviceId: string;
+  orientation: OrientationConfig;
+}
+
+// --- Session File (.vibra.json) ---
+// Current format (SESSION_VERSION); older files are migrated to it when opened
+
+export interface SessionSettings {
+  lang: 'zh' | 'en';
+  themeId: string;
+  gapRepairMode: GapRepairMode;
+  segmentIndex: number;
+  orientation: OrientationConfig;
+  deviceName: string;
+  filterConfig: FilterConfig;
+  driftCorrection: DriftCorrection;
+  resampleRate: number | null; // Hz, null = recorded rate
+  accelAxis: DataAxis;
+  intAxis: DataAxis;
+  selectedRun: number | null; // Index into the detected runs, null = whole recording
+  boundaryOverrides: BoundaryOverrides; // Manual Lim 0-3
+  windowStart: number; // s
+  windowSize: number; // s
+  viewDomain: [number, number] | null;
+  yScale: { accelMin: string; accelMax: string; intMin: string; intMax: string };
+  chartHeight: number;
+  showIsoBoundaries: boolean;
+  isFFTVisible: boolean;
+  showFilterOverlay: boolean;
+  spectrumMode: SpectrumMode;
+  crossChannels: [DataAxis, DataAxis]; // A, B of the cross-spectrum tab
+  spectrumConfig: SpectrumConfig;
+  isSpectrogramVisible: boolean;
+  spectrogramConfig: SpectrogramConfig;
+  octaveSource: OctaveSource;
+  envelopeConfig: EnvelopeConfig;
+  elevatorConfig: ElevatorConfig;
+  refLineLevel: number | null;
+}
+
+export interface SessionFile {
+  format: 'mese-vibration-session';
+  version: number;
+  savedAt: string; // ISO 8601
+  fileName: string; // original recording
+  recording: RecordingInfo;
+  metadata: RecordingMetadata;
+  data: {
+    encoding: 'float64le-base64'; // exact round trip of the imported samples (before repair / orientation / filters)
+    samples: number;
+    sha256: string; // hex digest of time, ax, ay, az bytes in that order
+    time: string;
+    ax: string;
+    ay: string;
+    az: string;
+  };
+  settings: SessionSettings;
+  // Results as they were on screen when saved, for checking against the reopened analysis
+  results: {
+    boundaries: ElevatorBoundaries | null;
+    isoStats: IsoStats | null;
+    kinematics: KinematicSummary | null;
+    aiResult: AIAnalysisResult | null;
+  };
+}
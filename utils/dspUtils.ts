@@ -1,126 +1,480 @@
 
-import { RawDataPoint, FilterConfig } from '../types';
+import { RawChannels, FilterConfig, FilterStage, FilterStageType, FilterResponsePoint, SensorAxis, WeightingCurve } from '../types';
 
-// 2nd Order Butterworth Filter Coefficient Calculation
+type Biquad = { b: number[]; a: number[] };
+
+// Defaults for a newly added stage of each type
+const STAGE_DEFAULTS: Record<FilterStageType, FilterStage> = {
+  lowpass: { type: 'lowpass', enabled: true, order: 4, freq: 10, freqHigh: 0, q: 0 },
+  highpass: { type: 'highpass', enabled: true, order: 4, freq: 0.5, freqHigh: 0, q: 0 },
+  bandpass: { type: 'bandpass', enabled: true, order: 4, freq: 1, freqHigh: 10, q: 0 },
+  bandstop: { type: 'bandstop', enabled: true, order: 4, freq: 45, freqHigh: 55, q: 0 },
+  notch: { type: 'notch', enabled: true, order: 2, freq: 50, freqHigh: 0, q: 30 }
+};
+
+// Keeps the edited fields that still make sense for the new type
+export const createFilterStage = (type: FilterStageType, from?: FilterStage): FilterStage => ({
+  ...STAGE_DEFAULTS[type],
+  ...(from ? { enabled: from.enabled, freq: from.freq } : {}),
+  ...(from && from.type !== 'notch' && type !== 'notch' ? { order: from.order } : {})
+});
+
+// Short label for badges, e.g. "LP 10Hz/4", "BP 1-10Hz/4", "Notch 50Hz"
+export const describeFilterStage = (stage: FilterStage): string => {
+  switch (stage.type) {
+    case 'lowpass': return `LP ${stage.freq}Hz/${stage.order}`;
+    case 'highpass': return `HP ${stage.freq}Hz/${stage.order}`;
+    case 'bandpass': return `BP ${stage.freq}-${stage.freqHigh}Hz/${stage.order}`;
+    case 'bandstop': return `BS ${stage.freq}-${stage.freqHigh}Hz/${stage.order}`;
+    case 'notch': return `Notch ${stage.freq}Hz`;
+  }
+};
+
+// RBJ cookbook biquad (bilinear transform pre-warped at f0)
 const calculateCoefficients = (
-  type: 'lowpass' | 'highpass',
-  cutoff: number,
+  type: 'lowpass' | 'highpass' | 'notch',
+  f0: number,
+  q: number,
   fs: number
-) => {
-  const wc = (2 * Math.PI * cutoff) / fs;
-  
-  let a0, a1, a2, b0, b1, b2;
-
-  if (type === 'lowpass') {
-    const omega = 2 * Math.PI * cutoff / fs;
-    const sn = Math.sin(omega);
-    const cs = Math.cos(omega);
-    const alpha = sn / (2 * 0.707); // Q = 0.707 for Butterworth
-    
-    const A0 = 1 + alpha;
-    b0 = (1 - cs) / 2 / A0;
-    b1 = (1 - cs) / A0;
-    b2 = (1 - cs) / 2 / A0;
-    a1 = (-2 * cs) / A0;
-    a2 = (1 - alpha) / A0;
-
-  } else {
-    // Highpass
-    const omega = 2 * Math.PI * cutoff / fs;
-    const sn = Math.sin(omega);
-    const cs = Math.cos(omega);
-    const alpha = sn / (2 * 0.707);
-    
-    const A0 = 1 + alpha;
-    b0 = (1 + cs) / 2 / A0;
-    b1 = -(1 + cs) / A0;
-    b2 = (1 + cs) / 2 / A0;
-    a1 = (-2 * cs) / A0;
-    a2 = (1 - alpha) / A0;
+): Biquad => {
+  const omega = 2 * Math.PI * f0 / fs;
+  const sn = Math.sin(omega);
+  const cs = Math.cos(omega);
+  const alpha = sn / (2 * q);
+  const A0 = 1 + alpha;
+
+  const b = type === 'lowpass' ? [(1 - cs) / 2, 1 - cs, (1 - cs) / 2]
+    : type === 'highpass' ? [(1 + cs) / 2, -(1 + cs), (1 + cs) / 2]
+    : [1, -2 * cs, 1];
+
+  return { b: b.map(v => v / A0), a: [1, (-2 * cs) / A0, (1 - alpha) / A0] };
+};
+
+// Order-N Butterworth as N/2 cascaded biquads with Q_k = 1 / (2·cos((2k-1)·π / 2N))
+const butterworth = (type: 'lowpass' | 'highpass', cutoff: number, order: number, fs: number): Biquad[] =>
+  Array.from({ length: order / 2 }, (_, k) =>
+    calculateCoefficients(type, cutoff, 1 / (2 * Math.cos((2 * k + 1) * Math.PI / (2 * order))), fs)
+  );
+
+// Bilinear constant that maps analog ω onto digital frequency f exactly (pre-warping)
+const prewarp = (f: number, fs: number) => {
+  const fp = Math.min(f, fs * 0.45);
+  return 2 * Math.PI * fp / Math.tan(Math.PI * fp / fs);
+};
+
+// Analog section (n0 + n1·s + n2·s²) / (d0 + d1·s + d2·s²) -> digital biquad, s = c·(1 - z⁻¹) / (1 + z⁻¹)
+const bilinear = (num: number[], den: number[], c: number): Biquad => {
+  const c2 = c * c;
+  const B = [num[0] + num[1] * c + num[2] * c2, 2 * (num[0] - num[2] * c2), num[0] - num[1] * c + num[2] * c2];
+  const A = [den[0] + den[1] * c + den[2] * c2, 2 * (den[0] - den[2] * c2), den[0] - den[1] * c + den[2] * c2];
+  return { b: B.map(v => v / A[0]), a: A.map(v => v / A[0]) };
+};
+
+// Order-N Butterworth band-pass / band-stop (N biquads) from the low-pass prototype.
+// Each prototype pole p splits into the roots of s² - p·B·s + ω0² (band-pass)
+// or s² - (B/p)·s + ω0² (band-stop); sections are normalised at ω0 / DC.
+const butterworthBand = (type: 'bandpass' | 'bandstop', f1: number, f2: number, order: number, fs: number): Biquad[] => {
+  const c = 2 * fs;
+  const w1 = c * Math.tan(Math.PI * f1 / fs);
+  const w2 = c * Math.tan(Math.PI * f2 / fs);
+  const w0sq = w1 * w2;
+  const bw = w2 - w1;
+  const sections: Biquad[] = [];
+
+  // Upper-half-plane prototype poles; their conjugates give the conjugate section poles
+  for (let k = 0; k < order / 2; k++) {
+    const theta = Math.PI * (2 * k + order + 1) / (2 * order);
+    const pr = Math.cos(theta), pi = Math.sin(theta);
+    // m = p·B (band-pass) or B/p = B·conj(p) (band-stop), |p| = 1
+    const mr = bw * pr, mi = type === 'bandpass' ? bw * pi : -bw * pi;
+    // Roots (m ± √(m² - 4ω0²)) / 2
+    const dr = mr * mr - mi * mi - 4 * w0sq, di = 2 * mr * mi;
+    const mod = Math.hypot(dr, di);
+    const sr = Math.sqrt((mod + dr) / 2), si = Math.sign(di || 1) * Math.sqrt((mod - dr) / 2);
+
+    for (const [rr, ri] of [[(mr + sr) / 2, (mi + si) / 2], [(mr - sr) / 2, (mi - si) / 2]]) {
+      const den = [rr * rr + ri * ri, -2 * rr, 1];
+      if (type === 'bandstop') {
+        // Zeros at ±jω0, unity gain at DC
+        sections.push(bilinear([den[0], 0, den[0] / w0sq], den, c));
+      } else {
+        // Zero at DC (and ∞), unity gain at ω0
+        const gain = Math.hypot(den[0] - w0sq, den[1] * Math.sqrt(w0sq)) / Math.sqrt(w0sq);
+        sections.push(bilinear([0, gain, 0], den, c));
+      }
+    }
   }
+  return sections;
+};
+
+// Cascade of biquads for a stage; empty when its frequencies do not fit between 0 and fs/2
+const designStage = (stage: FilterStage, fs: number): Biquad[] => {
+  const inRange = (f: number) => f > 0 && f < fs / 2;
 
-  return { b: [b0, b1, b2], a: [1, a1, a2] };
+  switch (stage.type) {
+    case 'lowpass':
+    case 'highpass':
+      return inRange(stage.freq) ? butterworth(stage.type, stage.freq, stage.order, fs) : [];
+    case 'notch':
+      return inRange(stage.freq) && stage.q > 0 ? [calculateCoefficients('notch', stage.freq, stage.q, fs)] : [];
+    case 'bandpass':
+      if (stage.freqHigh <= stage.freq) return [];
+      // An edge outside (0, fs/2) leaves a plain high-pass or low-pass
+      if (!inRange(stage.freqHigh)) return inRange(stage.freq) ? butterworth('highpass', stage.freq, stage.order, fs) : [];
+      if (!inRange(stage.freq)) return butterworth('lowpass', stage.freqHigh, stage.order, fs);
+      return butterworthBand('bandpass', stage.freq, stage.freqHigh, stage.order, fs);
+    case 'bandstop':
+      if (!inRange(stage.freq) || !inRange(stage.freqHigh) || stage.freqHigh <= stage.freq) return [];
+      return butterworthBand('bandstop', stage.freq, stage.freqHigh, stage.order, fs);
+  }
 };
 
-const filterSeries = (data: number[], b: number[], a: number[]): number[] => {
-  const output = new Float64Array(data.length);
-  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
-  
-  for (let i = 0; i < data.length; i++) {
+// Residual of the start-up transient the padding has to absorb
+const SETTLING_TOLERANCE = 1e-3;
+
+// One pass of a biquad section (direct form I), optionally running from the end towards the start.
+// The state starts in steady state for the first sample (like scipy's lfilter_zi), so a
+// constant offset passes without a start-up transient.
+const biquadPass = (data: Float64Array, b: number[], a: number[], reverse = false): Float64Array => {
+  const n = data.length;
+  const output = new Float64Array(n);
+  if (n === 0) return output;
+
+  const first = data[reverse ? n - 1 : 0];
+  const dcGain = (b[0] + b[1] + b[2]) / (a[0] + a[1] + a[2]);
+  let x1 = first, x2 = first, y1 = first * dcGain, y2 = first * dcGain;
+
+  for (let k = 0; k < n; k++) {
+    const i = reverse ? n - 1 - k : k;
     const x0 = data[i];
     const y0 = b[0] * x0 + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
-    
+
     output[i] = y0;
-    
+
     x2 = x1;
     x1 = x0;
     y2 = y1;
     y1 = y0;
   }
-  
-  // Zero-phase (filtfilt) by filtering backwards
-  const outputRev = new Float64Array(data.length);
-  x1 = 0; x2 = 0; y1 = 0; y2 = 0;
-  for (let i = data.length - 1; i >= 0; i--) {
-    const x0 = output[i];
-    const y0 = b[0] * x0 + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
-    outputRev[i] = y0;
-    
-    x2 = x1;
-    x1 = x0;
-    y2 = y1;
-    y1 = y0;
+
+  return output;
+};
+
+// Samples until the slowest pole of 1 + a1·z⁻¹ + a2·z⁻² has decayed to SETTLING_TOLERANCE
+const settlingSamples = (a: number[]): number => {
+  const disc = a[1] * a[1] - 4 * a[2];
+  const radius = disc < 0
+    ? Math.sqrt(a[2])
+    : Math.max(Math.abs(-a[1] + Math.sqrt(disc)), Math.abs(-a[1] - Math.sqrt(disc))) / 2;
+  if (radius >= 1) return Infinity;
+  return radius <= 0 ? 0 : Math.ceil(Math.log(SETTLING_TOLERANCE) / Math.log(radius));
+};
+
+// Point-symmetric (odd) extension about both end samples: 2·x[0] - x[pad..1], x, 2·x[n-1] - x[n-2..n-1-pad]
+const oddExtend = (data: Float64Array, pad: number): Float64Array => {
+  const n = data.length;
+  const out = new Float64Array(n + 2 * pad);
+  out.set(data, pad);
+  for (let i = 1; i <= pad; i++) {
+    out[pad - i] = 2 * data[0] - data[i];
+    out[pad + n - 1 + i] = 2 * data[n - 1] - data[n - 1 - i];
   }
-  
-  const res = new Array(data.length);
-  for(let i=0; i<data.length; i++) res[i] = outputRev[i];
-  return res;
+  return out;
 };
 
-export const applyFilters = (
-  data: RawDataPoint[], 
-  fs: number, 
-  config: FilterConfig
-): RawDataPoint[] => {
-  if (data.length === 0) return [];
+// Zero-phase per section, as scipy's filtfilt: odd extension at both ends, steady-state initial
+// conditions for the forward and the backward pass, padding trimmed afterwards.
+// Unlike scipy's padlen = 3·max(len(a), len(b)) = 9, the padding covers the section's settling time
+// (9 samples at least), so low cut-offs do not leave an edge transient. Checked against
+// filtfilt with that padlen in dspUtils.test.ts.
+const filterSeries = (data: Float64Array, b: number[], a: number[]): Float64Array => {
+  const n = data.length;
+  if (n < 2) return biquadPass(data, b, a);
+  const pad = Math.min(n - 1, Math.max(9, settlingSamples(a)));
+  const extended = oddExtend(data, pad);
+  return biquadPass(biquadPass(extended, b, a), b, a, true).slice(pad, pad + n);
+};
+
+// Zero-phase Butterworth high-pass of a single series
+export const highPassSeries = (data: Float64Array, cutoff: number, fs: number, order = 2): Float64Array =>
+  cutoff > 0 && cutoff < fs / 2
+    ? butterworth('highpass', cutoff, order, fs).reduce((out, { b, a }) => filterSeries(out, b, a), data)
+    : data;
+
+// Zero-phase Butterworth low-pass of a single series
+export const lowPassSeries = (data: Float64Array, cutoff: number, fs: number, order = 2): Float64Array =>
+  cutoff > 0 && cutoff < fs / 2
+    ? butterworth('lowpass', cutoff, order, fs).reduce((out, { b, a }) => filterSeries(out, b, a), data)
+    : data;
+
+// Zero-phase pass of a single series through one filter stage (enabled or not)
+export const filterStageSeries = (data: Float64Array, stage: FilterStage, fs: number): Float64Array =>
+  designStage(stage, fs).reduce((out, { b, a }) => filterSeries(out, b, a), data);
+
+// Single forward pass through one filter stage, as a real-time analyser runs it (keeps -3 dB edges)
+export const causalStageSeries = (data: Float64Array, stage: FilterStage, fs: number): Float64Array =>
+  designStage(stage, fs).reduce((out, { b, a }) => biquadPass(out, b, a), data);
+
+// --- ISO 2631-1 / ISO 8041 Frequency Weighting ---
+
+// Parameters of the weighting definitions (ISO 8041 Table; f in Hz, f5/f6 absent = no upward step)
+const WEIGHTING_PARAMS: Record<WeightingCurve, {
+  f1: number; f2: number; f3: number; f4: number; q4: number;
+  f5?: number; q5?: number; f6?: number; q6?: number; k: number;
+}> = {
+  Wk: { f1: 0.4, f2: 100, f3: 12.5, f4: 12.5, q4: 0.63, f5: 2.37, q5: 0.91, f6: 3.35, q6: 0.91, k: 1 },
+  Wd: { f1: 0.4, f2: 100, f3: 2.0, f4: 2.0, q4: 0.63, k: 1 },
+  Wb: { f1: 0.4, f2: 100, f3: 16, f4: 16, q4: 0.55, f5: 2.5, q5: 0.9, f6: 4.0, q6: 0.95, k: 1.024 }
+};
 
-  const ax = data.map(d => d.ax);
-  const ay = data.map(d => d.ay);
-  const az = data.map(d => d.az);
+// Biquad sections of a weighting curve: band-limiting (high-pass f1, low-pass f2),
+// acceleration-velocity transition (f3, f4) and upward step (f5, f6)
+const weightingSections = (curve: WeightingCurve, fs: number): Biquad[] => {
+  const p = WEIGHTING_PARAMS[curve];
+  const w = (f: number) => 2 * Math.PI * f;
+  const sections: Biquad[] = [];
 
-  let filteredAx = ax;
-  let filteredAy = ay;
-  let filteredAz = az;
+  // 1. Band-limiting, 2nd-order Butterworth (Q = 1/√2) each
+  sections.push(bilinear([0, 0, 1], [w(p.f1) ** 2, w(p.f1) * Math.SQRT2, 1], prewarp(p.f1, fs)));
+  // The low-pass corner only exists when fs/2 is above it
+  if (p.f2 < fs / 2) sections.push(bilinear([w(p.f2) ** 2, 0, 0], [w(p.f2) ** 2, w(p.f2) * Math.SQRT2, 1], prewarp(p.f2, fs)));
+
+  // 2. a-v transition: (1 + s/ω3) / (1 + s/(Q4·ω4) + s²/ω4²)
+  sections.push(bilinear([1, 1 / w(p.f3), 0], [1, 1 / (p.q4 * w(p.f4)), 1 / w(p.f4) ** 2], prewarp(p.f4, fs)));
+
+  // 3. Upward step: (1 + s/(Q5·ω5) + s²/ω5²) / (1 + s/(Q6·ω6) + s²/ω6²) · (ω5/ω6)²
+  if (p.f5 && p.f6 && p.q5 && p.q6) {
+    const g = (p.f5 / p.f6) ** 2;
+    sections.push(bilinear(
+      [g, g / (p.q5 * w(p.f5)), g / w(p.f5) ** 2],
+      [1, 1 / (p.q6 * w(p.f6)), 1 / w(p.f6) ** 2],
+      prewarp(p.f5, fs)
+    ));
+  }
+
+  // Overall gain K folded into the first section
+  sections[0].b = sections[0].b.map(v => v * p.k);
+  return sections;
+};
+
+// Causal, like the analogue weighting networks the standard describes; a zero-phase
+// pass would square the magnitude response and no longer match the curve
+export const applyWeighting = (data: Float64Array, fs: number, curve: WeightingCurve): Float64Array =>
+  weightingSections(curve, fs).reduce((out, { b, a }) => biquadPass(out, b, a), data);
+
+// Filter stages only, without the frequency weighting
+export const applyFilterStages = (
+  data: RawChannels,
+  fs: number,
+  config: FilterConfig
+): RawChannels => {
+  if (data.time.length === 0) return data;
+
+  let filteredAx = data.ax;
+  let filteredAy = data.ay;
+  let filteredAz = data.az;
 
   // 1. Determine which axes to filter
   const filterZ = true; // Always filter Z if enabled
   const filterXY = config.targetAxes === 'all';
 
-  // 2. Apply High Pass (if > 0)
-  if (config.highPassFreq > 0) {
-    const coeffs = calculateCoefficients('highpass', config.highPassFreq, fs);
-    if (filterXY) filteredAx = filterSeries(filteredAx, coeffs.b, coeffs.a);
-    if (filterXY) filteredAy = filterSeries(filteredAy, coeffs.b, coeffs.a);
-    if (filterZ)  filteredAz = filterSeries(filteredAz, coeffs.b, coeffs.a);
+  // 2. Run the enabled stages in list order
+  for (const stage of config.stages) {
+    if (!stage.enabled) continue;
+    for (const { b, a } of designStage(stage, fs)) {
+      if (filterXY) filteredAx = filterSeries(filteredAx, b, a);
+      if (filterXY) filteredAy = filterSeries(filteredAy, b, a);
+      if (filterZ)  filteredAz = filterSeries(filteredAz, b, a);
+    }
   }
 
-  // 3. Apply Low Pass (if < fs/2)
-  if (config.lowPassFreq < fs / 2 && config.lowPassFreq > 0) {
-    const coeffs = calculateCoefficients('lowpass', config.lowPassFreq, fs);
-    if (filterXY) filteredAx = filterSeries(filteredAx, coeffs.b, coeffs.a);
-    if (filterXY) filteredAy = filterSeries(filteredAy, coeffs.b, coeffs.a);
-    if (filterZ)  filteredAz = filterSeries(filteredAz, coeffs.b, coeffs.a);
-  }
+  // Unfiltered axes share the input arrays (never mutated)
+  return { time: data.time, ax: filteredAx, ay: filteredAy, az: filteredAz };
+};
 
-  // Reassemble
-  const result = new Array(data.length);
-  for (let i = 0; i < data.length; i++) {
-    result[i] = {
-      time: data[i].time,
-      ax: filteredAx[i],
-      ay: filteredAy[i],
-      az: filteredAz[i]
-    };
+// Frequency weighting per axis: vertical curve on Z, Wd on the horizontal axes (a no-op when switched off)
+export const applyWeightings = (data: RawChannels, fs: number, config: FilterConfig): RawChannels => {
+  if (!config.isStandardWeighting || data.time.length === 0) return data;
+  return {
+    time: data.time,
+    ax: applyWeighting(data.ax, fs, 'Wd'),
+    ay: applyWeighting(data.ay, fs, 'Wd'),
+    az: applyWeighting(data.az, fs, config.verticalWeighting)
+  };
+};
+
+// --- Frequency Response ---
+
+// Lowest level drawn; deep stop bands of high-order chains would otherwise flatten the plot
+const RESPONSE_FLOOR_DB = -120;
+
+// Complex H(e^jω) of a biquad at normalised angular frequency ω
+const biquadResponse = ({ b, a }: Biquad, omega: number): [number, number] => {
+  const c1 = Math.cos(omega), s1 = Math.sin(omega);
+  const c2 = Math.cos(2 * omega), s2 = Math.sin(2 * omega);
+  const nr = b[0] + b[1] * c1 + b[2] * c2, ni = -(b[1] * s1 + b[2] * s2);
+  const dr = a[0] + a[1] * c1 + a[2] * c2, di = -(a[1] * s1 + a[2] * s2);
+  const d = dr * dr + di * di;
+  return [(nr * dr + ni * di) / d, (ni * dr - nr * di) / d];
+};
+
+// Effective response of the chain on one axis, as applyFilterStages and applyWeightings run it:
+// stages are forward-backward (|H|², zero phase), weighting is causal (|H| and its phase)
+export const calculateFilterResponse = (
+  config: FilterConfig,
+  fs: number,
+  axis: SensorAxis,
+  points = 400
+): FilterResponsePoint[] => {
+  const stages = axis === 'z' || config.targetAxes === 'all'
+    ? config.stages.filter(s => s.enabled).flatMap(s => designStage(s, fs))
+    : [];
+  const weighting = config.isStandardWeighting
+    ? weightingSections(axis === 'z' ? config.verticalWeighting : 'Wd', fs)
+    : [];
+
+  // Log-spaced from 0.05 Hz to just below Nyquist
+  const fMin = 0.05, fMax = fs / 2 * 0.999;
+  const result: FilterResponsePoint[] = [];
+  for (let i = 0; i < points; i++) {
+    const frequency = fMin * Math.pow(fMax / fMin, i / (points - 1));
+    const omega = 2 * Math.PI * frequency / fs;
+
+    let power = 1;
+    for (const section of stages) {
+      const [re, im] = biquadResponse(section, omega);
+      power *= (re * re + im * im) ** 2;
+    }
+    let hr = 1, hi = 0;
+    for (const section of weighting) {
+      const [re, im] = biquadResponse(section, omega);
+      [hr, hi] = [hr * re - hi * im, hr * im + hi * re];
+    }
+    power *= hr * hr + hi * hi;
+
+    result.push({
+      frequency,
+      magnitudeDb: Math.max(RESPONSE_FLOOR_DB, 10 * Math.log10(power)),
+      phaseDeg: Math.atan2(hi, hr) * 180 / Math.PI
+    });
   }
   return result;
 };
+
+// Edge frequencies of the enabled stages that act on this axis, for chart markers
+export const filterCutoffs = (config: FilterConfig, fs: number, axis: SensorAxis): { frequency: number; label: string }[] => {
+  if (axis !== 'z' && config.targetAxes !== 'all') return [];
+  return config.stages
+    .filter(s => s.enabled)
+    .flatMap(s => {
+      const short = describeFilterStage(s).split(' ')[0];
+      return s.type === 'bandpass' || s.type === 'bandstop'
+        ? [{ frequency: s.freq, label: short }, { frequency: s.freqHigh, label: short }]
+        : [{ frequency: s.freq, label: short }];
+    })
+    .filter(c => c.frequency > 0 && c.frequency < fs / 2);
+};
+
+// --- Resampling ---
+
+// Largest interpolation / decimation factor of the rational ratio
+const MAX_RESAMPLE_FACTOR = 1000;
+
+// Anti-alias cutoff as a fraction of the lower of the two Nyquist frequencies
+const RESAMPLE_ROLLOFF = 0.9;
+
+// Sinc zero crossings kept on each side of the kernel
+const RESAMPLE_ZERO_CROSSINGS = 16;
+
+// Kaiser window shape, about 90 dB stop-band attenuation
+const KAISER_BETA = 8.6;
+
+// Modified Bessel function of the first kind, order 0 (series)
+const besselI0 = (x: number): number => {
+  let sum = 1, term = 1;
+  for (let k = 1; k < 64; k++) {
+    term *= (x / (2 * k)) ** 2;
+    sum += term;
+    if (term < 1e-12 * sum) break;
+  }
+  return sum;
+};
+
+// up / down ≈ ratio with both terms at most MAX_RESAMPLE_FACTOR (continued fraction convergents)
+export const rationalApproximation = (ratio: number): { up: number; down: number } => {
+  let h0 = 0, h1 = 1, k0 = 1, k1 = 0;
+  let x = ratio;
+  let best = { up: Math.max(1, Math.round(ratio)), down: 1 };
+  for (let iter = 0; iter < 32; iter++) {
+    const a = Math.floor(x);
+    const h2 = a * h1 + h0, k2 = a * k1 + k0;
+    if (h2 > MAX_RESAMPLE_FACTOR || k2 > MAX_RESAMPLE_FACTOR) break;
+    if (h2 > 0) best = { up: h2, down: k2 };
+    if (Math.abs(h2 / k2 - ratio) <= 1e-12 * ratio || x === a) break;
+    [h0, h1, k0, k1] = [h1, h2, k1, k2];
+    x = 1 / (x - a);
+  }
+  return best;
+};
+
+// Kaiser-windowed sinc low-pass at the rate fs·up, cut off below the lower Nyquist frequency
+const resampleKernel = (up: number, down: number): { h: Float64Array; half: number } => {
+  const factor = Math.max(up, down);
+  const half = RESAMPLE_ZERO_CROSSINGS * factor;
+  const cutoff = RESAMPLE_ROLLOFF / factor; // Relative to the Nyquist frequency of fs·up
+  const norm = besselI0(KAISER_BETA);
+  const h = new Float64Array(2 * half + 1);
+  for (let j = -half; j <= half; j++) {
+    const x = Math.PI * cutoff * j;
+    const sinc = j === 0 ? 1 : Math.sin(x) / x;
+    h[j + half] = sinc * besselI0(KAISER_BETA * Math.sqrt(1 - (j / half) ** 2)) / norm;
+  }
+  return { h, half };
+};
+
+// Polyphase FIR: output k sits at k·down on the up-sampled grid and only the input samples
+// (every up-th point of that grid) under the kernel are visited. Each output is divided by the
+// weights it used, which keeps DC exact per phase; samples beyond the ends hold the end values.
+const resampleSeries = (data: Float64Array, up: number, down: number, kernel: { h: Float64Array; half: number }): Float64Array => {
+  const { h, half } = kernel;
+  const n = data.length;
+  const out = new Float64Array(n > 0 ? Math.floor((n - 1) * up / down) + 1 : 0);
+
+  for (let k = 0; k < out.length; k++) {
+    const t = k * down;
+    const first = Math.ceil((t - half) / up);
+    const last = Math.floor((t + half) / up);
+    let acc = 0, weight = 0;
+    for (let i = first; i <= last; i++) {
+      const w = h[t - i * up + half];
+      acc += w * data[i < 0 ? 0 : i >= n ? n - 1 : i];
+      weight += w;
+    }
+    out[k] = acc / weight;
+  }
+  return out;
+};
+
+// Resample a uniformly sampled recording to (close to) targetFs with anti-alias filtering.
+// The ratio is made rational (up / down ≤ 1000), so the returned fs can differ from targetFs
+// by a few ppm; time restarts from the first stamp on the new grid.
+// Returns the input object unchanged when no change of rate is needed.
+export const resampleChannels = (
+  data: RawChannels,
+  fs: number,
+  targetFs: number
+): { data: RawChannels; fs: number } => {
+  if (!(targetFs > 0) || data.time.length === 0) return { data, fs };
+  const { up, down } = rationalApproximation(targetFs / fs);
+  if (up === down) return { data, fs };
+
+  const kernel = resampleKernel(up, down);
+  const outFs = fs * up / down;
+  const ax = resampleSeries(data.ax, up, down, kernel);
+  const ay = resampleSeries(data.ay, up, down, kernel);
+  const az = resampleSeries(data.az, up, down, kernel);
+  const t0 = data.time[0];
+  const time = Float64Array.from(az, (_, k) => t0 + k / outFs);
+
+  return { data: { time, ax, ay, az }, fs: outFs };
+};
@@ -0,0 +1,93 @@
+import { ElevatorConfig, EnvelopeConfig, SpectrumConfig, SpectrumResult } from '../types';
+import { createFilterStage, filterStageSeries } from './dspUtils';
+import { DEFAULT_SPECTRUM_CONFIG, calculateSpectrum, fftInPlace } from './mathUtils';
+
+export const DEFAULT_ENVELOPE_CONFIG: EnvelopeConfig = {
+  bandCenter: 80,
+  bandWidth: 40,
+  harmonics: 3
+};
+
+// Band-pass order; steep enough to isolate a resonance, short enough to settle within a window
+const BAND_ORDER = 4;
+
+// --- Envelope ---
+
+// |analytic signal| via the FFT: keep DC and Nyquist, double positive, drop negative frequencies.
+// Zero-padded to a power of two, so the ends see a slight roll-off.
+export const hilbertEnvelope = (data: Float64Array): Float64Array => {
+  const n = data.length;
+  if (n === 0) return new Float64Array(0);
+  const N = 1 << Math.ceil(Math.log2(n));
+
+  const real = new Float64Array(N);
+  const imag = new Float64Array(N);
+  real.set(data);
+  fftInPlace(real, imag);
+
+  for (let k = 1; k < N / 2; k++) {
+    real[k] *= 2;
+    imag[k] *= 2;
+  }
+  real.fill(0, N / 2 + 1);
+  imag.fill(0, N / 2 + 1);
+  fftInPlace(real, imag, true);
+
+  const envelope = new Float64Array(n);
+  for (let i = 0; i < n; i++) envelope[i] = Math.hypot(real[i], imag[i]) / N;
+  return envelope;
+};
+
+// Band edges around the resonance, kept inside (0, fs/2)
+export const envelopeBand = (config: EnvelopeConfig, fs: number): [number, number] => {
+  const nyquist = fs / 2;
+  const low = Math.min(Math.max(config.bandCenter - config.bandWidth / 2, 0.01 * nyquist), 0.98 * nyquist);
+  const high = Math.max(Math.min(config.bandCenter + config.bandWidth / 2, 0.99 * nyquist), low * 1.01);
+  return [low, high];
+};
+
+// Envelope spectrum of one series:
+// 1. Zero-phase Butterworth band-pass around the resonance
+// 2. Hilbert envelope
+// 3. Spectrum of the envelope with the panel's estimation settings, where the impact repetition rate shows up
+export const calculateEnvelopeSpectrum = (
+  series: Float64Array,
+  fs: number,
+  config: EnvelopeConfig,
+  spectrum: SpectrumConfig = DEFAULT_SPECTRUM_CONFIG
+): SpectrumResult => {
+  // 1. Band-pass
+  const [low, high] = envelopeBand(config, fs);
+  const band = filterStageSeries(series, { ...createFilterStage('bandpass'), order: BAND_ORDER, freq: low, freqHigh: high }, fs);
+
+  // 2. Envelope
+  const envelope = hilbertEnvelope(band);
+
+  // 3. Spectrum (segment means are removed there)
+  return calculateSpectrum(envelope, fs, spectrum);
+};
+
+// --- Fault Frequencies ---
+
+// Mean |VZ| (m/s), the car speed over an analysis window
+export const meanSpeed = (vz: Float64Array): number => {
+  if (vz.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < vz.length; i++) sum += Math.abs(vz[i]);
+  return sum / vz.length;
+};
+
+// Guide roller turning at f = v / (π·D); a flat spot or an eccentric tyre strikes once per turn,
+// so the fault shows at f and its multiples
+export const rollerFaultFrequencies = (
+  config: EnvelopeConfig,
+  elevator: ElevatorConfig,
+  speed: number
+): { frequency: number; label: string }[] => {
+  if (!(speed > 0) || !(elevator.rollerDiameter > 0)) return [];
+  const rotation = speed / (Math.PI * elevator.rollerDiameter / 1000);
+  return Array.from({ length: Math.max(1, Math.round(config.harmonics)) }, (_, i) => ({
+    frequency: rotation * (i + 1),
+    label: `${i + 1}×`
+  }));
+};
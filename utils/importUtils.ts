@@ -0,0 +1,710 @@
+import { RawChannels, SampleRateInfo, ParsedRecording, AccelUnit, UnitInfo, ImportIssue, CsvDialect, DelimitedTable, ColumnMapping, SampleFormat, BinaryLayout, WavHeader } from '../types';
+import { parseMetadataHeader } from './metadataUtils';
+
+export const DEFAULT_SAMPLE_RATE = 1600; // SMEC portable vibrometer
+
+// Relative RMS deviation of sample intervals above which the time base is flagged
+export const JITTER_TOLERANCE = 0.01;
+
+// Row-level issues beyond this are summarised in a single line
+const MAX_ROW_ISSUES = 20;
+
+// Matches preamble lines such as "Sample Rate: 1000 Hz", "fs=500" or "采样频率,2000"
+const SAMPLE_RATE_HEADER = /(?:\b(?:sample\s*rate|sampling\s*(?:rate|frequency)|fs)\b|采样率|采样频率)\s*(?:[(\[]hz[)\]])?\s*[:=,;\t ]\s*([\d.]+)/i;
+
+// Matches preamble lines such as "Serial No: A1234", "Device ID=EVA-625" or "设备编号,SMEC-01"
+const DEVICE_ID_HEADER = /(?:\b(?:device|serial|logger|sensor|s\/?n)\b\s*(?:id|no\.?|number|name)?|设备编号|设备号|序列号)\s*[:=,;\t]\s*"?([^\s",;]+)/i;
+
+const COMMENT_PREFIXES = ['#', '//', '%'];
+
+export class ImportError extends Error {
+  issues: ImportIssue[];
+
+  constructor(message: string, issues: ImportIssue[] = []) {
+    super(message);
+    this.name = 'ImportError';
+    this.issues = issues.length > 0 ? issues : [{ severity: 'error', message }];
+  }
+}
+
+export const formatIssue = (issue: ImportIssue): string => {
+  const where = [
+    issue.row !== undefined ? `Row ${issue.row}` : '',
+    issue.column !== undefined ? `column "${issue.column}"` : ''
+  ].filter(Boolean).join(', ');
+  return where ? `${where}: ${issue.message}` : issue.message;
+};
+
+// --- Units ---
+
+// Conversion factors to Gals (cm/s^2)
+export const ACCEL_UNIT_TO_GAL: Record<AccelUnit, number> = {
+  gal: 1,
+  g: 980.665,
+  mg: 0.980665,
+  mps2: 100
+};
+
+export const ACCEL_UNIT_LABELS: Record<AccelUnit, string> = {
+  gal: 'Gal',
+  g: 'g',
+  mg: 'mg',
+  mps2: 'm/s²'
+};
+
+// Split "az[g]" / "az (m/s2)" into column name and unit text
+const splitHeaderCell = (cell: string): { name: string; unit: string } => {
+  const match = cell.match(/^(.*?)\s*[\[(]\s*([^\])]*?)\s*[\])]$/);
+  if (!match) return { name: cell, unit: '' };
+  return { name: match[1], unit: match[2] };
+};
+
+export const parseAccelUnit = (text: string): AccelUnit | null => {
+  const u = text.trim().toLowerCase().replace(/\s+/g, '');
+  if (u === 'gal' || u === 'gals' || u === 'cm/s2' || u === 'cm/s^2' || u === 'cm/s²') return 'gal';
+  if (u === 'g') return 'g';
+  if (u === 'mg') return 'mg';
+  if (u === 'm/s2' || u === 'm/s^2' || u === 'm/s²' || u === 'ms-2' || u === 'ms^-2') return 'mps2';
+  return null;
+};
+
+// --- Sample Rate ---
+
+// Estimate fs from a column of timestamps (seconds) using the median interval
+export const estimateSampleRate = (stamps: ArrayLike<number>): { fs: number; jitter: number } => {
+  const diffs: number[] = [];
+  for (let i = 1; i < stamps.length; i++) diffs.push(stamps[i] - stamps[i - 1]);
+  if (diffs.length === 0) return { fs: 0, jitter: 0 };
+
+  const sorted = [...diffs].sort((a, b) => a - b);
+  const medianDt = sorted[Math.floor(sorted.length / 2)];
+  if (!(medianDt > 0)) return { fs: 0, jitter: 0 };
+
+  // Nominal interval = mean of intervals near the median (robust to gaps, unbiased by alternating jitter)
+  let sum = 0, count = 0;
+  for (const dt of diffs) {
+    if (Math.abs(dt - medianDt) < medianDt * 0.5) { sum += dt; count++; }
+  }
+  const nominalDt = sum / count;
+
+  let sumSq = 0;
+  for (const dt of diffs) sumSq += (dt - nominalDt) * (dt - nominalDt);
+  const jitter = Math.sqrt(sumSq / diffs.length) / nominalDt;
+
+  return { fs: 1 / nominalDt, jitter };
+};
+
+export const parseSampleRateHeader = (lines: string[]): number => {
+  for (const line of lines) {
+    const match = line.match(SAMPLE_RATE_HEADER);
+    if (match && Number(match[1]) > 0) return Number(match[1]);
+  }
+  return 0;
+};
+
+export const parseDeviceIdHeader = (lines: string[]): string | undefined => {
+  for (const line of lines) {
+    const match = line.match(DEVICE_ID_HEADER);
+    if (match) return match[1];
+  }
+  return undefined;
+};
+
+// --- Delimited Text ---
+
+const DELIMITER_CHARS: Record<Exclude<CsvDialect['delimiter'], 'whitespace'>, string> = {
+  ',': ',',
+  ';': ';',
+  '\t': '\t',
+  '|': '|'
+};
+
+// Quote-aware split of a single line ("" inside quotes is an escaped quote)
+export const splitDelimitedLine = (line: string, delimiter: CsvDialect['delimiter']): string[] => {
+  if (delimiter === 'whitespace') return line.trim().split(/\s+/);
+
+  const sep = DELIMITER_CHARS[delimiter];
+  const cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (line[i + 1] === '"') { cell += '"'; i++; }
+        else inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === sep) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+export const parseNumber = (cell: string, decimalComma: boolean): number => {
+  if (cell === '') return NaN;
+  return Number(decimalComma ? cell.replace(',', '.') : cell);
+};
+
+const isComment = (line: string) => COMMENT_PREFIXES.some(p => line.startsWith(p));
+
+const looksNumeric = (cell: string) => /^[-+]?(\d+([.,]\d*)?|[.,]\d+)([eE][-+]?\d+)?$/.test(cell);
+
+// Pick the delimiter that splits the sample lines into the most consistent number of fields (>1)
+const sniffDelimiter = (sample: string[]): CsvDialect['delimiter'] => {
+  // Comma last: with decimal commas it would otherwise win on field count
+  const candidates: CsvDialect['delimiter'][] = ['\t', ';', '|', ','];
+
+  for (const delimiter of candidates) {
+    const counts = sample.map(l => splitDelimitedLine(l, delimiter).length);
+    const freq = new Map<number, number>();
+    counts.forEach(c => freq.set(c, (freq.get(c) || 0) + 1));
+    let mode = 0, modeCount = 0;
+    freq.forEach((n, c) => { if (n > modeCount || (n === modeCount && c > mode)) { mode = c; modeCount = n; } });
+    if (mode > 1 && modeCount >= sample.length * 0.8) return delimiter;
+  }
+  return 'whitespace';
+};
+
+export const LINE_BREAK = /\r\n|\n|\r/;
+
+// Split text into header + cell rows, sniffing delimiter, comment lines, header row and decimal style.
+// Large files are sniffed from their first chunk only; the import worker streams the rest through createDelimitedReader.
+export const readDelimitedTable = (text: string): DelimitedTable => {
+  const lines = text.replace(/^\uFEFF/, '').split(LINE_BREAK);
+  const issues: ImportIssue[] = [];
+
+  // 1. Content lines (non-empty, non-comment) with their 1-based line numbers
+  const content: { line: number; text: string }[] = [];
+  const comments: string[] = [];
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    if (isComment(line)) comments.push(line);
+    else content.push({ line: i + 1, text: line });
+  });
+
+  if (content.length === 0) {
+    throw new ImportError('File is empty or contains only comment lines');
+  }
+
+  // 2. Dialect: sniff on the tail of the sample so preamble lines do not dominate
+  const sample = content.slice(Math.min(20, Math.floor(content.length / 2)), 80).map(c => c.text);
+  const delimiter = sniffDelimiter(sample.length > 0 ? sample : content.map(c => c.text));
+  const split = content.map(c => ({ line: c.line, cells: splitDelimitedLine(c.text, delimiter) }));
+
+  const fieldCounts = new Map<number, number>();
+  split.forEach(r => fieldCounts.set(r.cells.length, (fieldCounts.get(r.cells.length) || 0) + 1));
+  let fieldCount = 0, best = 0;
+  fieldCounts.forEach((n, c) => { if (n > best) { best = n; fieldCount = c; } });
+
+  // 3. Header row: nearest full-width row above the first numeric row; rows above it are preamble
+  const firstNumeric = split.findIndex(r => r.cells.length === fieldCount && r.cells.filter(looksNumeric).length >= fieldCount / 2);
+  if (firstNumeric === -1) {
+    throw new ImportError('No numeric data rows found');
+  }
+
+  const stripBrackets = (c: string) => c.replace(/[\[\]()]/g, '');
+  const isUnitRow = (cells: string[]) =>
+    cells.some(c => parseAccelUnit(stripBrackets(c)) !== null) &&
+    cells.every(c => c === '' || parseAccelUnit(stripBrackets(c)) !== null || /^(s|ms|sec)$/i.test(stripBrackets(c)));
+
+  const fullWidthAbove = (from: number) => {
+    for (let i = from - 1; i >= 0; i--) {
+      if (split[i].cells.length === fieldCount) return i;
+    }
+    return -1;
+  };
+
+  let headerIdx = fullWidthAbove(firstNumeric);
+  // A row of pure unit labels (e.g. "s;g;g;g") directly under the header
+  let unitRow: string[] | null = null;
+  if (headerIdx !== -1 && isUnitRow(split[headerIdx].cells)) {
+    unitRow = split[headerIdx].cells.map(stripBrackets);
+    headerIdx = fullWidthAbove(headerIdx);
+  }
+
+  const hasHeader = headerIdx !== -1;
+  const headerCells = hasHeader
+    ? split[headerIdx].cells.map(c => splitHeaderCell(c))
+    : Array.from({ length: fieldCount }, (_, i) => ({ name: `Col ${i + 1}`, unit: '' }));
+
+  const headers = headerCells.map((c, i) => c.name || `Col ${i + 1}`);
+  const headerUnits = headerCells.map((c, i) => c.unit || (unitRow ? unitRow[i] : ''));
+
+  const preamble = [
+    ...comments,
+    ...split.slice(0, hasHeader ? headerIdx : firstNumeric).map(r => content.find(c => c.line === r.line)!.text)
+  ];
+
+  // 4. Data rows; rows with the wrong field count are reported and dropped
+  const rows: { line: number; cells: string[] }[] = [];
+  let badWidth = 0;
+  for (let i = firstNumeric; i < split.length; i++) {
+    const r = split[i];
+    if (r.cells.length !== fieldCount) {
+      if (badWidth < MAX_ROW_ISSUES) {
+        issues.push({ severity: 'warning', row: r.line, message: `expected ${fieldCount} fields, found ${r.cells.length}; row skipped` });
+      }
+      badWidth++;
+      continue;
+    }
+    rows.push(r);
+  }
+  if (badWidth > MAX_ROW_ISSUES) {
+    issues.push({ severity: 'warning', message: `${badWidth - MAX_ROW_ISSUES} more rows with the wrong field count were skipped` });
+  }
+
+  // 5. Decimal commas only make sense when comma is not the delimiter
+  const decimalComma = delimiter !== ',' && rows.slice(0, 50).some(r => r.cells.some(c => /^[-+]?\d*,\d+([eE][-+]?\d+)?$/.test(c)));
+
+  return {
+    dialect: { delimiter, decimalComma, hasHeader },
+    headers,
+    headerUnits,
+    preamble,
+    rows,
+    issues
+  };
+};
+
+// --- Column Mapping ---
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9一-龥]/g, '');
+
+const isTimeHeader = (h: string) => {
+  const n = normalizeHeader(h);
+  return n === 't' || n.startsWith('time') || n === 'sec' || n === 'seconds' || n === 'zeit' || n === '时间';
+};
+
+// "ax", "X", "Acc_X", "accel x", "X-Axis", "Accel_X_g" -> 'x'
+const axisFromHeader = (h: string): 'x' | 'y' | 'z' | null => {
+  const match = normalizeHeader(h).match(/^(?:a|acc|accel|acceleration)?([xyz])(?:axis|acc|accel)?$/);
+  return match ? (match[1] as 'x' | 'y' | 'z') : null;
+};
+
+// "Ch1", "Channel 2", "CH_3" -> 1..n
+const channelFromHeader = (h: string): number | null => {
+  const match = normalizeHeader(h).match(/^(?:ch|chan|channel)(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
+
+// Guess which column holds X/Y/Z; ambiguous = the user should confirm before loading
+export const suggestColumnMapping = (headers: string[]): { mapping: ColumnMapping; ambiguous: boolean } => {
+  const timeIdx = headers.findIndex(isTimeHeader);
+  const byAxis: Record<'x' | 'y' | 'z', number[]> = { x: [], y: [], z: [] };
+  headers.forEach((h, i) => {
+    const axis = axisFromHeader(h);
+    if (axis) byAxis[axis].push(i);
+  });
+
+  if (byAxis.x.length === 1 && byAxis.y.length === 1 && byAxis.z.length === 1) {
+    return {
+      mapping: { x: byAxis.x[0], y: byAxis.y[0], z: byAxis.z[0], time: timeIdx === -1 ? null : timeIdx },
+      ambiguous: false
+    };
+  }
+
+  // Fallback: numbered channels in order, else the first three non-time columns
+  const channels = headers
+    .map((h, i) => ({ i, ch: channelFromHeader(h) }))
+    .filter(c => c.ch !== null)
+    .sort((a, b) => a.ch! - b.ch!)
+    .map(c => c.i);
+  const others = headers.map((_, i) => i).filter(i => i !== timeIdx);
+  const pool = channels.length >= 3 ? channels : others;
+
+  return {
+    mapping: {
+      x: byAxis.x[0] ?? pool[0] ?? 0,
+      y: byAxis.y[0] ?? pool[1] ?? 0,
+      z: byAxis.z[0] ?? pool[2] ?? 0,
+      time: timeIdx === -1 ? null : timeIdx
+    },
+    ambiguous: true
+  };
+};
+
+const validateMapping = (mapping: ColumnMapping, headers: string[]) => {
+  const axisCols = [mapping.x, mapping.y, mapping.z];
+  const errors: ImportIssue[] = [];
+  axisCols.forEach((idx, k) => {
+    if (idx < 0 || idx >= headers.length) {
+      errors.push({ severity: 'error', message: `No column selected for ${'XYZ'[k]} axis` });
+    }
+  });
+  if (new Set(axisCols).size !== 3) {
+    errors.push({ severity: 'error', message: 'X, Y and Z must be mapped to different columns' });
+  }
+  if (mapping.time !== null && axisCols.includes(mapping.time)) {
+    errors.push({ severity: 'error', column: headers[mapping.time], message: 'time column is also mapped to an axis' });
+  }
+  if (errors.length > 0) {
+    throw new ImportError('Invalid column mapping', errors);
+  }
+};
+
+// Streaming row consumer: converts mapped columns into a recording in Gals with fs detected from the time column or preamble.
+// Lines before the table's first data row (preamble, header, units row) are ignored.
+// fs priority: time column > sample-rate header line > defaultFs
+// Unit priority: unitOverride > header suffix / units row > Gals
+export const createDelimitedReader = (
+  table: DelimitedTable,
+  mapping: ColumnMapping,
+  defaultFs: number = DEFAULT_SAMPLE_RATE,
+  unitOverride?: AccelUnit
+) => {
+  const { headers, headerUnits, dialect } = table;
+  const axisCols = [mapping.x, mapping.y, mapping.z];
+  const fieldCount = headers.length;
+  const firstDataLine = table.rows.length > 0 ? table.rows[0].line : Infinity;
+  const issues: ImportIssue[] = [];
+
+  // 1. Validate the mapping itself
+  validateMapping(mapping, headers);
+
+  // 2. Units: per column, since files may label only some of them
+  const columnUnits = axisCols.map(idx => parseAccelUnit(headerUnits[idx] || ''));
+  const headerUnit = columnUnits.find(u => u !== null) ?? null;
+  const unit: UnitInfo = unitOverride
+    ? { unit: unitOverride, source: 'manual' }
+    : { unit: headerUnit ?? 'gal', source: headerUnit ? 'header' : 'default' };
+  const [kx, ky, kz] = columnUnits.map(u => ACCEL_UNIT_TO_GAL[unitOverride ?? u ?? unit.unit]);
+
+  const timeIdx = mapping.time;
+  let timeScale = timeIdx !== null && (headerUnits[timeIdx] === 'ms' || normalizeHeader(headers[timeIdx]).includes('ms')) ? 0.001 : 1;
+
+  // 3. Accumulate rows into plain number arrays (row index is kept so skipped rows do not shift the time base)
+  const rowIdx: number[] = [], stamps: number[] = [], xs: number[] = [], ys: number[] = [], zs: number[] = [];
+  let rowCount = 0, badRows = 0, badWidth = 0;
+
+  const addCells = (cells: string[], line: number) => {
+    const row = rowCount++;
+    const x = parseNumber(cells[mapping.x], dialect.decimalComma);
+    const y = parseNumber(cells[mapping.y], dialect.decimalComma);
+    const z = parseNumber(cells[mapping.z], dialect.decimalComma);
+    const stamp = timeIdx !== null ? parseNumber(cells[timeIdx], dialect.decimalComma) : NaN;
+
+    const badCol = [x, y, z].findIndex(v => isNaN(v));
+    if (badCol !== -1 || (timeIdx !== null && isNaN(stamp))) {
+      if (badRows < MAX_ROW_ISSUES) {
+        const col = badCol !== -1 ? axisCols[badCol] : timeIdx!;
+        const cell = cells[col];
+        issues.push({
+          severity: 'warning',
+          row: line,
+          column: headers[col],
+          message: `${cell === '' ? 'empty value' : `"${cell}" is not a number`}; row skipped`
+        });
+      }
+      badRows++;
+      return;
+    }
+
+    rowIdx.push(row);
+    stamps.push(stamp);
+    xs.push(x);
+    ys.push(y);
+    zs.push(z);
+  };
+
+  const addLine = (text: string, line: number) => {
+    if (line < firstDataLine) return;
+    const trimmed = text.trim();
+    if (!trimmed || isComment(trimmed)) return;
+
+    const cells = splitDelimitedLine(trimmed, dialect.delimiter);
+    if (cells.length !== fieldCount) {
+      if (badWidth < MAX_ROW_ISSUES) {
+        issues.push({ severity: 'warning', row: line, message: `expected ${fieldCount} fields, found ${cells.length}; row skipped` });
+      }
+      badWidth++;
+      return;
+    }
+    addCells(cells, line);
+  };
+
+  const finish = (): ParsedRecording => {
+    if (badWidth > MAX_ROW_ISSUES) {
+      issues.push({ severity: 'warning', message: `${badWidth - MAX_ROW_ISSUES} more rows with the wrong field count were skipped` });
+    }
+    if (badRows > MAX_ROW_ISSUES) {
+      issues.push({ severity: 'warning', message: `${badRows - MAX_ROW_ISSUES} more rows with invalid values were skipped` });
+    }
+    const n = xs.length;
+    if (n === 0) {
+      throw new ImportError('No valid data rows', issues.some(i => i.row !== undefined)
+        ? [{ severity: 'error', message: 'Every data row failed to parse' }, ...issues]
+        : []);
+    }
+
+    // 4. Work out fs
+    const headerFs = parseSampleRateHeader(table.preamble);
+    let sampleRate: SampleRateInfo = { fs: headerFs || defaultFs, source: headerFs ? 'header' : 'default', jitter: 0, isJittery: false };
+
+    if (timeIdx !== null && n > 1) {
+      let est = estimateSampleRate(stamps.map(t => t * timeScale));
+      // Unlabelled millisecond stamps: no logger we support samples slower than 2 Hz
+      if (timeScale === 1 && est.fs > 0 && est.fs < 2) {
+        timeScale = 0.001;
+        est = { fs: est.fs * 1000, jitter: est.jitter };
+      }
+      if (est.fs > 0) {
+        sampleRate = { fs: est.fs, source: 'timeColumn', jitter: est.jitter, isJittery: est.jitter > JITTER_TOLERANCE };
+      } else {
+        issues.push({ severity: 'warning', column: headers[timeIdx], message: 'timestamps are not increasing; sample rate not taken from time column' });
+      }
+    }
+
+    // 5. Assemble in Gals, with time relative to the first sample
+    const data: RawChannels = {
+      time: new Float64Array(n),
+      ax: new Float64Array(n),
+      ay: new Float64Array(n),
+      az: new Float64Array(n)
+    };
+    const fromStamps = sampleRate.source === 'timeColumn';
+    const t0 = fromStamps ? stamps[0] * timeScale : 0;
+    for (let i = 0; i < n; i++) {
+      data.time[i] = fromStamps ? stamps[i] * timeScale - t0 : rowIdx[i] / sampleRate.fs;
+      data.ax[i] = xs[i] * kx;
+      data.ay[i] = ys[i] * ky;
+      data.az[i] = zs[i] * kz;
+    }
+
+    return { data, sampleRate, unit, issues, deviceId: parseDeviceIdHeader(table.preamble), metadata: parseMetadataHeader(table.preamble) };
+  };
+
+  return { addLine, addCells, finish };
+};
+
+// Whole-table conversion for text that is already in memory
+export const tableToRecording = (
+  table: DelimitedTable,
+  mapping: ColumnMapping,
+  defaultFs: number = DEFAULT_SAMPLE_RATE,
+  unitOverride?: AccelUnit
+): ParsedRecording => {
+  const reader = createDelimitedReader(table, mapping, defaultFs, unitOverride);
+  table.rows.forEach(r => reader.addCells(r.cells, r.line));
+  const result = reader.finish();
+  return { ...result, issues: [...table.issues, ...result.issues] };
+};
+
+// One-shot CSV import using the suggested column mapping
+export const parseCSV = (csvText: string, defaultFs: number = DEFAULT_SAMPLE_RATE, unitOverride?: AccelUnit): ParsedRecording => {
+  const table = readDelimitedTable(csvText);
+  const { mapping } = suggestColumnMapping(table.headers);
+  return tableToRecording(table, mapping, defaultFs, unitOverride);
+};
+
+// --- WAV / Raw Binary ---
+
+export const SAMPLE_FORMAT_BYTES: Record<SampleFormat, number> = {
+  uint8: 1,
+  int16: 2,
+  int24: 3,
+  int32: 4,
+  float32: 4,
+  float64: 8
+};
+
+const readSample = (view: DataView, offset: number, format: SampleFormat, littleEndian: boolean): number => {
+  switch (format) {
+    case 'uint8': return view.getUint8(offset);
+    case 'int16': return view.getInt16(offset, littleEndian);
+    case 'int24': {
+      const b0 = view.getUint8(offset), b1 = view.getUint8(offset + 1), b2 = view.getUint8(offset + 2);
+      const v = littleEndian ? (b0 | (b1 << 8) | (b2 << 16)) : ((b0 << 16) | (b1 << 8) | b2);
+      return (v << 8) >> 8; // Sign-extend
+    }
+    case 'int32': return view.getInt32(offset, littleEndian);
+    case 'float32': return view.getFloat32(offset, littleEndian);
+    case 'float64': return view.getFloat64(offset, littleEndian);
+  }
+};
+
+// De-interleave whole frames of `out.length` samples into out[c][outOffset..]; returns the number of frames read
+export const decodeFrames = (
+  view: DataView,
+  start: number,
+  byteLength: number,
+  format: SampleFormat,
+  littleEndian: boolean,
+  out: Float64Array[],
+  outOffset: number = 0
+): number => {
+  const bytes = SAMPLE_FORMAT_BYTES[format];
+  const channels = out.length;
+  const frames = Math.min(Math.floor(byteLength / (bytes * channels)), out[0].length - outOffset);
+
+  let offset = start;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      out[c][outOffset + i] = readSample(view, offset, format, littleEndian);
+      offset += bytes;
+    }
+  }
+  return frames;
+};
+
+// Value that maps to ±1 for each PCM format (float is stored as-is)
+export const pcmFullScale = (format: SampleFormat): { offset: number; fullScale: number } => {
+  switch (format) {
+    case 'uint8': return { offset: 128, fullScale: 128 };
+    case 'int16': return { offset: 0, fullScale: 32768 };
+    case 'int24': return { offset: 0, fullScale: 8388608 };
+    case 'int32': return { offset: 0, fullScale: 2147483648 };
+    default: return { offset: 0, fullScale: 1 };
+  }
+};
+
+// RIFF/WAVE header reader: PCM 8/16/24/32-bit and IEEE float 32/64-bit, including WAVE_FORMAT_EXTENSIBLE.
+// `totalBytes` is the full file size, so only the first chunk of a large file needs to be passed in.
+export const readWavHeader = (buffer: ArrayBuffer, totalBytes: number = buffer.byteLength): WavHeader => {
+  const view = new DataView(buffer);
+  const tag = (offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+
+  if (buffer.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new ImportError('Not a RIFF/WAVE file');
+  }
+
+  let fmt: { code: number; channels: number; fs: number; bits: number } | null = null;
+  let dataStart = -1, dataLength = 0;
+
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let code = view.getUint16(body, true);
+      // WAVE_FORMAT_EXTENSIBLE: real format is the first 2 bytes of the sub-format GUID
+      if (code === 0xfffe && size >= 26) code = view.getUint16(body + 24, true);
+      fmt = { code, channels: view.getUint16(body + 2, true), fs: view.getUint32(body + 4, true), bits: view.getUint16(body + 14, true) };
+    } else if (id === 'data') {
+      // Streamed recorders may leave the size at 0 or 0xFFFFFFFF
+      dataStart = body;
+      dataLength = size === 0 || body + size > totalBytes ? totalBytes - body : size;
+      break;
+    }
+    offset = body + size + (size & 1);
+  }
+
+  if (!fmt) throw new ImportError('WAV file has no "fmt " chunk');
+  if (dataStart === -1) throw new ImportError('WAV file has no "data" chunk');
+
+  let format: SampleFormat;
+  if (fmt.code === 1) {
+    const pcm: Record<number, SampleFormat> = { 8: 'uint8', 16: 'int16', 24: 'int24', 32: 'int32' };
+    format = pcm[fmt.bits];
+  } else if (fmt.code === 3) {
+    const float: Record<number, SampleFormat> = { 32: 'float32', 64: 'float64' };
+    format = float[fmt.bits];
+  } else {
+    throw new ImportError(`Unsupported WAV encoding (format code ${fmt.code})`);
+  }
+  if (!format) throw new ImportError(`Unsupported WAV bit depth (${fmt.bits}-bit)`);
+  if (fmt.channels < 1 || fmt.fs <= 0) throw new ImportError('WAV header has an invalid channel count or sample rate');
+
+  return { channelCount: fmt.channels, fs: fmt.fs, format, dataStart, dataLength };
+};
+
+// Decode the frames of a WAV that lie inside `buffer` (used for previews), PCM normalised to ±1 full scale
+export const readWavFrames = (buffer: ArrayBuffer, header: WavHeader): Float64Array[] => {
+  const available = Math.max(0, Math.min(header.dataLength, buffer.byteLength - header.dataStart));
+  const frames = Math.floor(available / (SAMPLE_FORMAT_BYTES[header.format] * header.channelCount));
+  const out = Array.from({ length: header.channelCount }, () => new Float64Array(frames));
+  decodeFrames(new DataView(buffer), header.dataStart, available, header.format, true, out);
+
+  const { offset, fullScale } = pcmFullScale(header.format);
+  out.forEach(ch => { for (let i = 0; i < ch.length; i++) ch[i] = (ch[i] - offset) / fullScale; });
+  return out;
+};
+
+export const validateBinaryLayout = (layout: BinaryLayout, totalBytes: number) => {
+  const { channels, headerBytes } = layout;
+  if (!(channels >= 1) || !Number.isInteger(channels)) throw new ImportError('Channel count must be a positive integer');
+  if (headerBytes < 0 || headerBytes >= totalBytes) throw new ImportError(`Header size (${headerBytes} bytes) leaves no sample data`);
+};
+
+// Packed interleaved samples after a fixed-size header (raw stored values, scale not applied)
+export const readBinary = (buffer: ArrayBuffer, layout: BinaryLayout, totalBytes: number = buffer.byteLength): Float64Array[] => {
+  validateBinaryLayout(layout, totalBytes);
+  const available = Math.max(0, buffer.byteLength - layout.headerBytes);
+  const frames = Math.floor(available / (SAMPLE_FORMAT_BYTES[layout.format] * layout.channels));
+  const out = Array.from({ length: layout.channels }, () => new Float64Array(frames));
+  decodeFrames(new DataView(buffer), layout.headerBytes, available, layout.format, layout.littleEndian, out);
+  return out;
+};
+
+// Map decoded channels to X/Y/Z, apply scale and unit conversion to Gals
+export const channelsToRecording = (
+  channels: Float64Array[],
+  mapping: ColumnMapping,
+  fs: number,
+  fsSource: SampleRateInfo['source'],
+  scale: number = 1,
+  unitOverride?: AccelUnit
+): ParsedRecording => {
+  validateMapping(mapping, channels.map((_, i) => `Channel ${i + 1}`));
+  if (!(fs > 0)) throw new ImportError('Sample rate must be greater than 0 Hz');
+
+  const n = channels[0]?.length ?? 0;
+  if (n === 0) throw new ImportError('File contains no complete sample frames');
+
+  const unit: UnitInfo = unitOverride ? { unit: unitOverride, source: 'manual' } : { unit: 'gal', source: 'default' };
+  const k = scale * ACCEL_UNIT_TO_GAL[unit.unit];
+
+  // Scale in place: the decoded channels are owned by the caller and not reused
+  // (validateMapping guarantees three distinct channels)
+  const ax = channels[mapping.x];
+  const ay = channels[mapping.y];
+  const az = channels[mapping.z];
+  const time = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    time[i] = i / fs;
+    ax[i] *= k;
+    ay[i] *= k;
+    az[i] *= k;
+  }
+
+  return {
+    data: { time, ax, ay, az },
+    sampleRate: { fs, source: fsSource, jitter: 0, isJittery: false },
+    unit,
+    issues: []
+  };
+};
+
+// Default X/Y/Z assignment for anonymous channels
+export const defaultChannelMapping = (channelCount: number): { mapping: ColumnMapping; ambiguous: boolean } => ({
+  mapping: { x: 0, y: Math.min(1, channelCount - 1), z: Math.min(2, channelCount - 1), time: null },
+  ambiguous: channelCount !== 3
+});
+
+// Text vs WAV vs UFF vs binary, by extension first and content second
+export const detectFileKind = (fileName: string, head: Uint8Array): 'wav' | 'uff' | 'binary' | 'text' => {
+  const ext = fileName.toLowerCase().split('.').pop() || '';
+  const magic = String.fromCharCode(...head.slice(0, 4));
+  if (ext === 'wav' || magic === 'RIFF') return 'wav';
+  if (ext === 'uff' || ext === 'unv' || ext === 'uf') return 'uff';
+  if (ext === 'bin' || ext === 'raw') return 'binary';
+  // UFF files open with a "    -1" delimiter line (58b data after it may contain NUL bytes)
+  const firstLine = String.fromCharCode(...head.slice(0, 80)).split(/\r?\n/).find(l => l.trim() !== '');
+  if (firstLine?.trim() === '-1') return 'uff';
+  // NUL bytes never appear in delimited text
+  return head.includes(0) ? 'binary' : 'text';
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { integrateVertical, NO_DRIFT_CORRECTION } from './integrationUtils';
+
+const FS = 100;
+
+describe('integrateVertical', () => {
+  it('steps by the sample times across a gap', () => {
+    // 100 Gal (1 m/s²) for 2 s, with 0.5 s of samples missing in the middle
+    const time = Float64Array.from({ length: 2 * FS + 1 }, (_, i) => i / FS).filter(t => t < 0.75 || t >= 1.25);
+    const az = new Float64Array(time.length).fill(100);
+    const { vz, sz } = integrateVertical(time, az, FS, NO_DRIFT_CORRECTION);
+    expect(vz[vz.length - 1]).toBeCloseTo(2, 9);
+    expect(sz[sz.length - 1]).toBeCloseTo(2, 9);
+  });
+});
+
+// Two 12 m trips with a 4 s stop between them; the sensor offset bulges mid-recording (warm-up),
+// which a line between the rests at the ends does not follow
+const twoRuns = () => {
+  const n = 40 * FS;
+  const time = Float64Array.from({ length: n }, (_, i) => i / FS);
+  const profile = (t: number) => (t < 2 ? 0 : t < 4 ? 50 : t < 14 ? 0 : t < 16 ? -50 : 0);
+  const az = time.map(t => {
+    const trip = t >= 3 && t < 19 ? profile(t - 3) : t >= 23 && t < 39 ? -profile(t - 23) : 0;
+    return trip + 0.5 * Math.sin(Math.PI * t / 40);
+  });
+  return { time, az };
+};
+
+describe('zero-velocity drift correction', () => {
+  it('holds the car still at every stop of a multi-run recording', () => {
+    const { time, az } = twoRuns();
+    const { vz, sz } = integrateVertical(time, az, FS, { ...NO_DRIFT_CORRECTION, mode: 'zeroVelocity' });
+    const stop = 21 * FS;
+    expect(Math.abs(vz[stop])).toBeLessThan(1e-12);
+    expect(sz[stop]).toBeCloseTo(12, 1);
+    expect(Math.abs(sz[sz.length - 1])).toBeLessThan(0.1);
+  });
+});
@@ -0,0 +1,282 @@
+import { DriftCorrection, DriftReport, SampleSpan } from '../types';
+import { highPassSeries, lowPassSeries } from './dspUtils';
+
+// Parameters used once a correction mode is chosen; the app starts with NO_DRIFT_CORRECTION
+export const DEFAULT_DRIFT_CORRECTION: DriftCorrection = { mode: 'zeroVelocity', polynomialOrder: 2, highPassFreq: 0.01 };
+
+export const NO_DRIFT_CORRECTION: DriftCorrection = { ...DEFAULT_DRIFT_CORRECTION, mode: 'none' };
+
+// Moving average used to find the run (s); longer than ride vibration, shorter than the acceleration phases
+const SMOOTHING_SECONDS = 0.25;
+
+// Rest level probes at both ends of the recording (s)
+const REST_PROBE_SECONDS = 0.5;
+
+// Smoothed deviation from rest above this fraction of its peak counts as motion
+const MOTION_FRACTION = 0.1;
+
+// Peak deviation (Gal) below which the recording is treated as containing no run
+const MIN_MOTION_GAL = 2;
+
+// The car stands while |vz| stays below this fraction of the recording's top speed...
+const STOP_VELOCITY_FRACTION = 0.05;
+
+// ...for at least this long (s); shorter dips are a slow pass, not a stop
+const MIN_STOP_SECONDS = 1;
+
+// Jerk is taken from the acceleration low-passed here (Hz, ISO 18738-1), kept below fs/2
+const JERK_LOW_PASS_FREQ = 5;
+
+// --- Helpers ---
+
+// Cumulative trapezoid integral over the actual sample times (gaps and jitter included); Gal -> m/s needs scale 0.01
+const trapezoid = (data: Float64Array, time: Float64Array, scale = 1, start = 0, end = data.length): Float64Array => {
+  const out = new Float64Array(data.length);
+  for (let i = start + 1; i < end; i++) {
+    out[i] = out[i - 1] + (data[i - 1] + data[i]) * scale * 0.5 * (time[i] - time[i - 1]);
+  }
+  return out;
+};
+
+const mean = (data: Float64Array, start: number, end: number) => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += data[i];
+  return end > start ? sum / (end - start) : 0;
+};
+
+// Centred moving average with a window of `win` samples (shrinks at the edges)
+const movingAverage = (data: Float64Array, win: number): Float64Array => {
+  const n = data.length;
+  const prefix = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + data[i];
+  const half = win >> 1;
+  const out = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const lo = Math.max(0, i - half), hi = Math.min(n, i + half + 1);
+    out[i] = (prefix[hi] - prefix[lo]) / (hi - lo);
+  }
+  return out;
+};
+
+// Least-squares polynomial through (time[i], y[i]) for the selected indices, evaluated at every sample.
+// Time is mapped onto [-1, 1] to keep the normal equations well conditioned.
+const polynomialBaseline = (time: Float64Array, y: Float64Array, order: number, use: (i: number) => boolean): Float64Array => {
+  const n = y.length;
+  const m = order + 1;
+  const duration = n > 1 ? time[n - 1] - time[0] : 0;
+  const x = (i: number) => duration > 0 ? 2 * (time[i] - time[0]) / duration - 1 : 0;
+
+  // 1. Normal equations A·c = r
+  const A = Array.from({ length: m }, () => new Float64Array(m));
+  const r = new Float64Array(m);
+  const pow = new Float64Array(m);
+  for (let i = 0; i < n; i++) {
+    if (!use(i)) continue;
+    pow[0] = 1;
+    for (let k = 1; k < m; k++) pow[k] = pow[k - 1] * x(i);
+    for (let row = 0; row < m; row++) {
+      r[row] += pow[row] * y[i];
+      for (let col = 0; col < m; col++) A[row][col] += pow[row] * pow[col];
+    }
+  }
+
+  // 2. Gaussian elimination with partial pivoting
+  for (let col = 0; col < m; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < m; row++) if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [r[col], r[pivot]] = [r[pivot], r[col]];
+    if (Math.abs(A[col][col]) < 1e-12) return new Float64Array(n); // Too few points for this order
+    for (let row = col + 1; row < m; row++) {
+      const f = A[row][col] / A[col][col];
+      for (let k = col; k < m; k++) A[row][k] -= f * A[col][k];
+      r[row] -= f * r[col];
+    }
+  }
+  const c = new Float64Array(m);
+  for (let row = m - 1; row >= 0; row--) {
+    let sum = r[row];
+    for (let k = row + 1; k < m; k++) sum -= A[row][k] * c[k];
+    c[row] = sum / A[row][row];
+  }
+
+  // 3. Evaluate (Horner)
+  const out = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let v = 0;
+    for (let k = m - 1; k >= 0; k--) v = v * x(i) + c[k];
+    out[i] = v;
+  }
+  return out;
+};
+
+// --- Run Detection ---
+
+// Sample range [start, end) in which the car moves; before and after it stands still.
+// Motion is where the smoothed az departs from the line between the rest levels at both ends.
+export const detectMotion = (az: Float64Array, fs: number): SampleSpan | null => {
+  const n = az.length;
+  if (n < 3) return null;
+  const probe = Math.max(1, Math.min(n, Math.round(REST_PROBE_SECONDS * fs)));
+  const win = Math.max(1, Math.round(SMOOTHING_SECONDS * fs));
+  const smooth = movingAverage(az, win);
+  const restBefore = mean(az, 0, probe);
+  const restAfter = mean(az, n - probe, n);
+
+  const deviation = new Float64Array(n);
+  let peak = 0;
+  for (let i = 0; i < n; i++) {
+    deviation[i] = Math.abs(smooth[i] - (restBefore + (restAfter - restBefore) * i / (n - 1)));
+    if (deviation[i] > peak) peak = deviation[i];
+  }
+  if (peak < MIN_MOTION_GAL) return null;
+
+  const threshold = peak * MOTION_FRACTION;
+  let first = 0, last = n - 1;
+  while (deviation[first] <= threshold) first++;
+  while (deviation[last] <= threshold) last--;
+
+  // Widen by the smoothing window: the jerk phase starts before the average crosses the threshold
+  return { start: Math.max(0, first - win), end: Math.min(n, last + win + 1) };
+};
+
+// Sample ranges [start, end) where the car stands, from the velocity; at either end of the recording
+// any length counts
+export const detectStops = (vz: Float64Array, fs: number): SampleSpan[] => {
+  const n = vz.length;
+  let vMax = 0;
+  for (let i = 0; i < n; i++) vMax = Math.max(vMax, Math.abs(vz[i]));
+  if (vMax === 0) return [];
+  const threshold = vMax * STOP_VELOCITY_FRACTION;
+  const minStop = Math.max(1, Math.round(MIN_STOP_SECONDS * fs));
+
+  const stops: SampleSpan[] = [];
+  let stillFrom = -1;
+  for (let i = 0; i <= n; i++) {
+    if (i < n && Math.abs(vz[i]) <= threshold) {
+      if (stillFrom < 0) stillFrom = i;
+      continue;
+    }
+    if (stillFrom >= 0 && (stillFrom === 0 || i === n || i - stillFrom >= minStop)) stops.push({ start: stillFrom, end: i });
+    stillFrom = -1;
+  }
+  return stops;
+};
+
+// --- Integration ---
+
+// Velocity with vz = 0 in every rest and az integrated over each motion between them. The sensor
+// offset comes from the rests either side of a motion (linear between them), and the velocity left
+// at its end is removed as a linear ramp so the car stops again.
+const integrateBetweenRests = (time: Float64Array, az: Float64Array, rests: SampleSpan[]): Float64Array => {
+  const n = az.length;
+  const vz = new Float64Array(n);
+  const level = (rest: SampleSpan) => ({ value: mean(az, rest.start, rest.end), time: (time[rest.start] + time[rest.end - 1]) / 2 });
+
+  for (let k = 0; k <= rests.length; k++) {
+    const start = k > 0 ? rests[k - 1].end : 0;
+    const end = k < rests.length ? rests[k].start : n;
+    if (end - start < 2) continue;
+
+    // 1. Sensor offset, from whichever rests there are
+    const before = k > 0 ? level(rests[k - 1]) : level(rests[k]);
+    const after = k < rests.length ? level(rests[k]) : before;
+    const bias = (t: number) => after.time > before.time
+      ? before.value + (after.value - before.value) * (t - before.time) / (after.time - before.time)
+      : before.value;
+
+    // 2. Integrate, then take out the residual velocity
+    for (let i = start + 1; i < end; i++) {
+      vz[i] = vz[i - 1] + (az[i - 1] - bias(time[i - 1]) + az[i] - bias(time[i])) * 0.01 * 0.5 * (time[i] - time[i - 1]);
+    }
+    const residual = vz[end - 1];
+    const span = time[end - 1] - time[start];
+    if (span > 0) {
+      for (let i = start; i < end; i++) vz[i] -= residual * (time[i] - time[start]) / span;
+    }
+  }
+  return vz;
+};
+
+// Velocity (m/s) and displacement (m) from the mean-free vertical acceleration (Gal)
+export const integrateVertical = (
+  time: Float64Array,
+  az: Float64Array,
+  fs: number,
+  config: DriftCorrection
+): { vz: Float64Array; sz: Float64Array; report: DriftReport } => {
+  const n = az.length;
+  const motion = detectMotion(az, fs);
+  const hasRest = !!motion && (motion.start > 0 || motion.end < n);
+  const plain = trapezoid(az, time, 0.01);
+  let vz: Float64Array;
+
+  if (config.mode === 'zeroVelocity' && motion && hasRest) {
+    // 1. Rest at the ends of the recording, around the motion found in az
+    const ends = [{ start: 0, end: motion.start }, { start: motion.end, end: n }].filter(r => r.end > r.start);
+    const first = integrateBetweenRests(time, az, ends);
+
+    // 2. Stops between runs show up in that velocity: integrate again with each of them as a rest,
+    //    so drift does not build up over a recording of several runs. Only the middle half of a stop
+    //    is used, since its edges still hold the end and start of the acceleration phases.
+    const between = detectStops(first, fs)
+      .filter(s => s.start > motion.start && s.end < motion.end)
+      .map(s => ({ start: s.start + ((s.end - s.start) >> 2), end: s.end - ((s.end - s.start) >> 2) }));
+    vz = between.length ? integrateBetweenRests(time, az, [...ends, ...between].sort((a, b) => a.start - b.start)) : first;
+  } else if (config.mode === 'polynomial') {
+    // Baseline fitted to vz where the car stands (everywhere when no run was found)
+    const baseline = polynomialBaseline(
+      time,
+      plain,
+      Math.max(0, Math.min(5, Math.round(config.polynomialOrder))),
+      hasRest ? (i => i < motion!.start || i >= motion!.end) : (() => true)
+    );
+    vz = plain.map((v, i) => v - baseline[i]);
+  } else if (config.mode === 'highpass') {
+    vz = highPassSeries(trapezoid(highPassSeries(az, config.highPassFreq, fs), time, 0.01), config.highPassFreq, fs);
+  } else {
+    vz = plain;
+  }
+
+  const sz = trapezoid(vz, time);
+
+  // Largest |v| while the car stands: the drift left in the velocity
+  const restVelocity = (v: Float64Array) => {
+    if (!motion) return 0;
+    let max = 0;
+    for (let i = 0; i < n; i++) {
+      if ((i < motion.start || i >= motion.end) && Math.abs(v[i]) > max) max = Math.abs(v[i]);
+    }
+    return max;
+  };
+
+  return {
+    vz,
+    sz,
+    report: {
+      mode: config.mode,
+      motionStart: motion ? time[motion.start] : null,
+      motionEnd: motion ? time[motion.end - 1] : null,
+      restVelocityBefore: restVelocity(plain),
+      restVelocity: restVelocity(vz),
+      endVelocity: n ? vz[n - 1] : 0,
+      travel: n ? sz[n - 1] : 0
+    }
+  };
+};
+
+// --- Differentiation ---
+
+// Vertical jerk (m/s³) from the mean-free vertical acceleration (Gal): 5 Hz zero-phase low-pass,
+// then a central difference (one-sided at the ends)
+export const verticalJerk = (az: Float64Array, fs: number): Float64Array => {
+  const n = az.length;
+  const jz = new Float64Array(n);
+  if (n < 2) return jz;
+  const smooth = lowPassSeries(az, Math.min(JERK_LOW_PASS_FREQ, 0.4 * fs), fs);
+  const scale = 0.01 * fs;
+  jz[0] = (smooth[1] - smooth[0]) * scale;
+  jz[n - 1] = (smooth[n - 1] - smooth[n - 2]) * scale;
+  for (let i = 1; i < n - 1; i++) jz[i] = (smooth[i + 1] - smooth[i - 1]) * 0.5 * scale;
+  return jz;
+};
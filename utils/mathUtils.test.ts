@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ElevatorBoundaries, RawChannels, RunBoundaryOverride } from '../types';
+import { detectRuns, findRunOverride, processVibrationData } from './mathUtils';
+
+const manual = (t0: number, t3: number): ElevatorBoundaries => ({ t0, t1: t0 + 2, t2: t3 - 2, t3, isValid: true, isManual: true });
+
+// Set on runs 2-18 s and 24-40 s
+const overrides: RunBoundaryOverride[] = [
+  { start: 2, end: 18, boundaries: manual(4, 16) },
+  { start: 24, end: 40, boundaries: manual(26, 38) }
+];
+
+describe('findRunOverride', () => {
+  it('finds the override of a run whose stops moved', () => {
+    // A filter change shifts the stop midpoints by a few tenths of a second
+    expect(findRunOverride({ start: 2.37, end: 17.81 }, overrides)).toBe(0);
+    expect(findRunOverride({ start: 23.6, end: 40.2 }, overrides)).toBe(1);
+  });
+
+  it('leaves runs without an override alone', () => {
+    expect(findRunOverride({ start: 18, end: 24 }, overrides)).toBe(-1);
+    expect(findRunOverride({ start: 44, end: 60 }, overrides)).toBe(-1);
+  });
+
+  it('gives a split run\'s override to the larger half only', () => {
+    // 2-18 s now detected as two runs
+    expect(findRunOverride({ start: 2, end: 11 }, overrides)).toBe(0);
+    expect(findRunOverride({ start: 11, end: 18 }, overrides)).toBe(-1);
+  });
+
+  it('picks the largest overlap', () => {
+    expect(findRunOverride({ start: 10, end: 30 }, [{ start: 0, end: 22, boundaries: manual(2, 20) }, ...overrides])).toBe(0);
+  });
+});
+
+const FS = 100;
+
+// Up 12 m, stand 4 s, down 12 m; 0.5 m/s² accelerations around 1 m/s, on top of gravity
+const twoTrips = (): RawChannels => {
+  const n = 40 * FS;
+  const time = Float64Array.from({ length: n }, (_, i) => i / FS);
+  const profile = (t: number) => (t < 2 ? 0 : t < 4 ? 50 : t < 14 ? 0 : t < 16 ? -50 : 0);
+  const az = time.map(t => 980.665 + (t >= 3 && t < 19 ? profile(t - 3) : t >= 23 && t < 39 ? -profile(t - 23) : 0));
+  return { time, ax: new Float64Array(n), ay: new Float64Array(n), az };
+};
+
+describe('detectRuns', () => {
+  it('splits a recording at the stop between two trips', () => {
+    const runs = detectRuns(processVibrationData(twoTrips(), FS), FS);
+    expect(runs.map(r => r.direction)).toEqual(['up', 'down']);
+    runs.forEach(r => expect(r.distance).toBeCloseTo(12, 1));
+    // Cut in the middle of the stop, 19-25 s (|vz| under 5% of top speed)
+    expect(runs[0].end).toBeGreaterThan(21);
+    expect(runs[0].end).toBeLessThan(23);
+    expect(runs[1].start).toBeCloseTo(runs[0].end + 1 / FS, 9);
+    expect(runs.every(r => r.boundaries.isValid)).toBe(true);
+  });
+
+  it('finds no runs in a recording of a standing car', () => {
+    const { time, ax, ay } = twoTrips();
+    expect(detectRuns(processVibrationData({ time, ax, ay, az: new Float64Array(time.length).fill(980.665) }, FS), FS)).toEqual([]);
+  });
+});
@@ -1,92 +1,77 @@
 
-import { ProcessedDataPoint, RawDataPoint, FFTResult, AnalysisStats, DataAxis, Point, ElevatorBoundaries, IsoStats } from '../types';
-
-// Simple CSV Parser
-export const parseCSV = (csvText: string, fs: number = 1600): RawDataPoint[] => {
-  const lines = csvText.trim().split('\n');
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-  
-  const axIdx = headers.indexOf('ax');
-  const ayIdx = headers.indexOf('ay');
-  const azIdx = headers.indexOf('az');
-
-  if (axIdx === -1 || ayIdx === -1 || azIdx === -1) {
-    throw new Error("CSV must contain 'ax', 'ay', and 'az' columns");
-  }
-
-  const data: RawDataPoint[] = [];
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const values = line.split(',').map(Number);
-    // Basic validation to ensure we have numbers
-    if (isNaN(values[axIdx]) || isNaN(values[ayIdx]) || isNaN(values[azIdx])) continue;
-
-    data.push({
-      time: (i - 1) / fs,
-      ax: values[axIdx],
-      ay: values[ayIdx],
-      az: values[azIdx]
-    });
+import { ProcessedDataPoint, FFTResult, AnalysisStats, DataAxis, Point, ElevatorBoundaries, IsoStats, KinematicSummary, PhaseKinematics, LiftRun, RunBoundaryOverride, BoundaryOverrides, RawChannels, ProcessedChannels, DriftCorrection, SpectrumConfig, SpectrumResult, WindowFunction, Spectrogram, SpectrogramConfig, CrossSpectrumPoint, CrossSpectrumResult } from '../types';
+import { integrateVertical, verticalJerk, detectStops, NO_DRIFT_CORRECTION } from './integrationUtils';
+import { lowPassSeries } from './dspUtils';
+
+// Index of the first sample at or after time t (or strictly after, if `after`); time is sorted ascending
+export const findTimeIndex = (time: Float64Array, t: number, after: boolean = false): number => {
+  let lo = 0, hi = time.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (time[mid] < t || (after && time[mid] === t)) lo = mid + 1;
+    else hi = mid;
   }
-  return data;
+  return lo;
 };
 
-// Numerical Integration (Trapezoidal Rule)
-export const processVibrationData = (rawData: RawDataPoint[], fs: number): ProcessedDataPoint[] => {
-  const n = rawData.length;
-  if (n === 0) return [];
+// Zero-copy view of samples [start, end)
+export const sliceChannels = (data: ProcessedChannels, start: number, end: number): ProcessedChannels => ({
+  time: data.time.subarray(start, end),
+  ax: data.ax.subarray(start, end),
+  ay: data.ay.subarray(start, end),
+  az: data.az.subarray(start, end),
+  vz: data.vz.subarray(start, end),
+  sz: data.sz.subarray(start, end),
+  jz: data.jz.subarray(start, end),
+  ...(data.azMotion ? { azMotion: data.azMotion.subarray(start, end) } : {})
+});
+
+// Numerical Integration (Trapezoidal Rule) and Differentiation.
+// When rawData.az is frequency-weighted, motionAz is the same Z before weighting: the weighting curves
+// cut the lift's acceleration profile, so vz, sz and jz are taken from motionAz.
+export const processVibrationData = (
+  rawData: RawChannels,
+  fs: number,
+  drift: DriftCorrection = NO_DRIFT_CORRECTION,
+  motionAz: Float64Array = rawData.az
+): ProcessedChannels => {
+  const n = rawData.time.length;
 
   // 1. Calculate Means (Remove DC Offset)
   let sumAx = 0, sumAy = 0, sumAz = 0;
   for (let i = 0; i < n; i++) {
-    sumAx += rawData[i].ax;
-    sumAy += rawData[i].ay;
-    sumAz += rawData[i].az;
+    sumAx += rawData.ax[i];
+    sumAy += rawData.ay[i];
+    sumAz += rawData.az[i];
   }
-  const axMean = sumAx / n;
-  const ayMean = sumAy / n;
-  const azMean = sumAz / n;
+  const axMean = n > 0 ? sumAx / n : 0;
+  const ayMean = n > 0 ? sumAy / n : 0;
+  const azMean = n > 0 ? sumAz / n : 0;
 
-  const processed = new Array<ProcessedDataPoint>(n);
-  const dt = 1 / fs;
-
-  // 2. Prepare Detrended Z-Acceleration in m/s^2
-  // 1 Gal = 0.01 m/s^2 (divide by 100)
-  const azMps2 = new Float64Array(n);
+  const ax = new Float64Array(n);
+  const ay = new Float64Array(n);
+  const az = new Float64Array(n);
   for (let i = 0; i < n; i++) {
-    azMps2[i] = (rawData[i].az - azMean) / 100;
+    ax[i] = rawData.ax[i] - axMean;
+    ay[i] = rawData.ay[i] - ayMean;
+    az[i] = rawData.az[i] - azMean;
   }
 
-  // 3. Calculate Velocity (VZ)
-  const vz = new Float64Array(n);
-  vz[0] = 0;
-  for (let i = 1; i < n; i++) {
-    vz[i] = vz[i-1] + (azMps2[i-1] + azMps2[i]) * 0.5 * dt;
+  let azMotion: Float64Array | undefined;
+  if (motionAz !== rawData.az) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) sum += motionAz[i];
+    azMotion = motionAz.map(v => v - sum / n);
   }
 
-  // 4. Calculate Displacement (SZ)
-  const sz = new Float64Array(n);
-  sz[0] = 0;
-  for (let i = 1; i < n; i++) {
-    sz[i] = sz[i-1] + (vz[i-1] + vz[i]) * 0.5 * dt;
-  }
+  // 2. Velocity (VZ, m/s) and displacement (SZ, m) from Z, with the selected drift correction
+  // 1 Gal = 0.01 m/s^2
+  const { vz, sz, report } = integrateVertical(rawData.time, azMotion ?? az, fs, drift);
 
-  // 5. Assemble Result
-  for (let i = 0; i < n; i++) {
-    processed[i] = {
-      time: rawData[i].time,
-      ax: rawData[i].ax - axMean,
-      ay: rawData[i].ay - ayMean,
-      az: rawData[i].az - azMean,
-      vz: vz[i],
-      sz: sz[i]
-    };
-  }
+  // 3. Jerk (JZ, m/s³) from Z
+  const jz = verticalJerk(azMotion ?? az, fs);
 
-  return processed;
+  return { time: rawData.time, ax, ay, az, vz, sz, jz, ...(azMotion ? { azMotion } : {}), drift: report };
 };
 
 // Simple bit reversal for FFT
@@ -99,22 +84,10 @@ const reverseBits = (x: number, bits: number): number => {
   return y;
 };
 
-// Cooley-Tukey FFT Implementation
-export const calculateFFT = (data: number[], fs: number): FFTResult[] => {
-  const n = data.length;
-  if (n === 0) return [];
-  
-  const p = Math.floor(Math.log2(n));
-  const N = 1 << p; 
-  
-  const real = new Float64Array(N);
-  const imag = new Float64Array(N);
-  
-  for (let i = 0; i < N; i++) {
-    real[i] = data[i];
-    imag[i] = 0;
-  }
-
+// In-place radix-2 Cooley-Tukey FFT; length must be a power of two.
+// The inverse transform is left unscaled (divide by N).
+export const fftInPlace = (real: Float64Array, imag: Float64Array, inverse: boolean = false): void => {
+  const N = real.length;
   const bits = Math.log2(N);
   for (let i = 0; i < N; i++) {
     const rev = reverseBits(i, bits);
@@ -124,11 +97,12 @@ export const calculateFFT = (data: number[], fs: number): FFTResult[] => {
     }
   }
 
+  const sign = inverse ? 1 : -1;
   for (let s = 1; s <= bits; s++) {
     const m = 1 << s; 
     const m2 = m >> 1;
     const wmReal = Math.cos(Math.PI / m2);
-    const wmImag = -Math.sin(Math.PI / m2); 
+    const wmImag = sign * Math.sin(Math.PI / m2); 
 
     for (let k = 0; k < N; k += m) {
       let wReal = 1;
@@ -151,52 +125,265 @@ export const calculateFFT = (data: number[], fs: number): FFTResult[] => {
       }
     }
   }
+};
+
+// --- Spectral Estimation ---
+
+export const DEFAULT_SPECTRUM_CONFIG: SpectrumConfig = {
+  window: 'hann',
+  segmentLength: null,
+  overlap: 0.5,
+  scaling: 'amplitude',
+  zeroPadding: 1,
+  freqMin: 0.5,
+  freqMax: 200
+};
+
+// Cosine-sum coefficients (periodic form, as used for spectral analysis); flat-top as in scipy
+const WINDOW_COEFFICIENTS: Record<WindowFunction, number[]> = {
+  rectangular: [1],
+  hann: [0.5, 0.5],
+  hamming: [0.54, 0.46],
+  flattop: [0.21557895, 0.41663158, 0.277263158, 0.083578947, 0.006947368]
+};
+
+export const createWindow = (type: WindowFunction, length: number): Float64Array => {
+  const coeffs = WINDOW_COEFFICIENTS[type];
+  const w = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    let value = 0;
+    coeffs.forEach((c, k) => { value += (k % 2 ? -c : c) * Math.cos(2 * Math.PI * k * i / length); });
+    w[i] = value;
+  }
+  return w;
+};
+
+// Welch segment layout: segments cover the whole series (the last one flush with its end)
+// and are zero-padded to a power of two, times zeroPadding
+const welchSegments = (n: number, config: SpectrumConfig, segmentLength: number) => {
+  const segLength = Math.max(2, Math.min(n, segmentLength));
+  const step = Math.max(1, Math.round(segLength * (1 - Math.min(0.9, Math.max(0, config.overlap)))));
+  const starts: number[] = [];
+  for (let start = 0; start + segLength <= n; start += step) starts.push(start);
+  if (starts[starts.length - 1] + segLength < n) starts.push(n - segLength);
+
+  const N = (1 << Math.ceil(Math.log2(segLength))) * Math.max(1, Math.round(config.zeroPadding));
+  const window = createWindow(config.window, segLength);
+  let s1 = 0, s2 = 0;
+  for (let i = 0; i < segLength; i++) {
+    s1 += window[i];
+    s2 += window[i] * window[i];
+  }
+  return { starts, N, window, s1, s2 };
+};
 
-  const results: FFTResult[] = [];
-  for (let i = 0; i < N / 2; i++) {
-    const freq = i * fs / N;
-    if (freq >= 0.5 && freq <= 200) { // Ignore DC and very high freq
-      let magnitude = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]) / N;
-      if (i > 0) magnitude *= 2; 
-      results.push({ frequency: freq, magnitude });
+// Mean-removed, windowed segment transformed in place into real / imag
+const transformSegment = (data: ArrayLike<number>, start: number, window: Float64Array, real: Float64Array, imag: Float64Array) => {
+  const segLength = window.length;
+  let sum = 0;
+  for (let i = 0; i < segLength; i++) sum += data[start + i];
+  const mean = sum / segLength;
+  real.fill(0);
+  imag.fill(0);
+  for (let i = 0; i < segLength; i++) real[i] = (data[start + i] - mean) * window[i];
+  fftInPlace(real, imag);
+};
+
+// Lines within the configured frequency range: [index, frequency, one-sided factor]
+const spectrumLines = (N: number, fs: number, config: SpectrumConfig): [number, number, number][] => {
+  const fMax = config.freqMax ?? fs / 2;
+  const lines: [number, number, number][] = [];
+  for (let k = 0; k <= N / 2; k++) {
+    const frequency = k * fs / N;
+    // One-sided: everything but DC and Nyquist also carries the negative frequency
+    if (frequency >= config.freqMin && frequency <= fMax) lines.push([k, frequency, k === 0 || k === N / 2 ? 1 : 2]);
+  }
+  return lines;
+};
+
+// Welch estimate: mean-removed, windowed segments, averaged |X|², one-sided.
+// Amplitude scaling gives the peak amplitude of a sine on its line (coherent gain 1/Σw),
+// PSD scaling divides by fs·Σw² so a line integrates to the signal's mean square.
+export const calculateSpectrum = (
+  data: ArrayLike<number>,
+  fs: number,
+  config: SpectrumConfig = DEFAULT_SPECTRUM_CONFIG
+): SpectrumResult => {
+  const n = data.length;
+  if (n < 2) return { data: [], rbw: 0, binWidth: 0, segments: 0 };
+
+  // 1. Segments
+  const { starts, N, window, s1, s2 } = welchSegments(n, config, config.segmentLength ?? n);
+
+  // 2. Averaged power
+  const power = new Float64Array(N / 2 + 1);
+  const real = new Float64Array(N);
+  const imag = new Float64Array(N);
+  for (const start of starts) {
+    transformSegment(data, start, window, real, imag);
+    for (let k = 0; k <= N / 2; k++) power[k] += (real[k] * real[k] + imag[k] * imag[k]) / starts.length;
+  }
+
+  // 3. Scaling and frequency range
+  const results: FFTResult[] = spectrumLines(N, fs, config).map(([k, frequency, sides]) => ({
+    frequency,
+    magnitude: config.scaling === 'psd'
+      ? power[k] * sides / (fs * s2)
+      : Math.sqrt(power[k]) * sides / s1
+  }));
+
+  return { data: results, rbw: fs * s2 / (s1 * s1), binWidth: fs / N, segments: starts.length };
+};
+
+// Segments the whole window is split into when the spectrum settings use a single one
+// (coherence of a single segment is identically 1)
+const MIN_CROSS_SEGMENTS = 4;
+
+// Welch cross-spectrum of a and b: S_ab = mean(conj(A)·B), so the phase is how far b leads a.
+// Magnitude follows the scaling of calculateSpectrum (√|S_ab| as an amplitude, |S_ab| as a CSD);
+// coherence |S_ab|² / (S_aa·S_bb) is 1 for one linear source and 0 for unrelated signals.
+export const calculateCrossSpectrum = (
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  fs: number,
+  config: SpectrumConfig = DEFAULT_SPECTRUM_CONFIG
+): CrossSpectrumResult => {
+  const n = Math.min(a.length, b.length);
+  if (n < 4 * MIN_CROSS_SEGMENTS) return { data: [], rbw: 0, binWidth: 0, segments: 0 };
+
+  // 1. Segments
+  const segmentLength = config.segmentLength ?? 1 << Math.floor(Math.log2(n / MIN_CROSS_SEGMENTS));
+  const { starts, N, window, s1, s2 } = welchSegments(n, config, segmentLength);
+
+  // 2. Averaged auto- and cross-power
+  const lines = N / 2 + 1;
+  const paa = new Float64Array(lines), pbb = new Float64Array(lines);
+  const pabRe = new Float64Array(lines), pabIm = new Float64Array(lines);
+  const aRe = new Float64Array(N), aIm = new Float64Array(N);
+  const bRe = new Float64Array(N), bIm = new Float64Array(N);
+  for (const start of starts) {
+    transformSegment(a, start, window, aRe, aIm);
+    transformSegment(b, start, window, bRe, bIm);
+    for (let k = 0; k < lines; k++) {
+      paa[k] += aRe[k] * aRe[k] + aIm[k] * aIm[k];
+      pbb[k] += bRe[k] * bRe[k] + bIm[k] * bIm[k];
+      pabRe[k] += aRe[k] * bRe[k] + aIm[k] * bIm[k];
+      pabIm[k] += aRe[k] * bIm[k] - aIm[k] * bRe[k];
     }
   }
 
-  return results;
+  // 3. Scaling, phase and coherence
+  const count = starts.length;
+  const results: CrossSpectrumPoint[] = spectrumLines(N, fs, config).map(([k, frequency, sides]) => {
+    const cross = Math.hypot(pabRe[k], pabIm[k]) / count;
+    const auto = paa[k] * pbb[k] / (count * count);
+    return {
+      frequency,
+      magnitude: config.scaling === 'psd' ? cross * sides / (fs * s2) : Math.sqrt(cross) * sides / s1,
+      phaseDeg: Math.atan2(pabIm[k], pabRe[k]) * 180 / Math.PI,
+      coherence: auto > 0 ? Math.min(1, cross * cross / auto) : 0
+    };
+  });
+
+  return { data: results, rbw: fs * s2 / (s1 * s1), binWidth: fs / N, segments: count };
+};
+
+export const DEFAULT_SPECTROGRAM_CONFIG: SpectrogramConfig = {
+  window: 'hann',
+  segmentLength: 512,
+  overlap: 0.75,
+  scale: 'db',
+  dynamicRange: 60,
+  colorMap: 'viridis',
+  freqMax: null
 };
 
-export const calculateStats = (data: ProcessedDataPoint[], axis: DataAxis, startTime?: number, endTime?: number): AnalysisStats => {
-  // Filter by time if provided
+// Upper bound on frames; longer recordings get a larger hop so the image stays drawable
+const MAX_SPECTROGRAM_FRAMES = 4000;
+
+// Short-time amplitude spectra over the whole series (same scaling as calculateSpectrum)
+export const calculateSpectrogram = (
+  data: Float64Array,
+  time: Float64Array,
+  fs: number,
+  config: SpectrogramConfig = DEFAULT_SPECTROGRAM_CONFIG
+): Spectrogram | null => {
+  const n = data.length;
+  if (n < 16) return null;
+  const segLength = Math.min(n, Math.max(16, config.segmentLength));
+
+  // 1. Frames
+  let step = Math.max(1, Math.round(segLength * (1 - Math.min(0.9, Math.max(0, config.overlap)))));
+  step = Math.max(step, Math.ceil((n - segLength) / (MAX_SPECTROGRAM_FRAMES - 1)));
+  const frames = Math.floor((n - segLength) / step) + 1;
+
+  const N = 1 << Math.ceil(Math.log2(segLength));
+  const bins = N / 2 + 1;
+  const window = createWindow(config.window, segLength);
+  let s1 = 0;
+  for (let i = 0; i < segLength; i++) s1 += window[i];
+
+  // 2. Spectra
+  const magnitude = new Float32Array(frames * bins);
+  const times = new Float64Array(frames);
+  const real = new Float64Array(N);
+  const imag = new Float64Array(N);
+  let max = 0;
+  for (let f = 0; f < frames; f++) {
+    const start = f * step;
+    times[f] = time[start + (segLength >> 1)];
+
+    let sum = 0;
+    for (let i = 0; i < segLength; i++) sum += data[start + i];
+    const mean = sum / segLength;
+    real.fill(0);
+    imag.fill(0);
+    for (let i = 0; i < segLength; i++) real[i] = (data[start + i] - mean) * window[i];
+    fftInPlace(real, imag);
+
+    for (let k = 0; k < bins; k++) {
+      const sides = k === 0 || k === N / 2 ? 1 : 2;
+      const value = Math.hypot(real[k], imag[k]) * sides / s1;
+      magnitude[f * bins + k] = value;
+      if (value > max) max = value;
+    }
+  }
+
+  return { times, frameStep: step / fs, binWidth: fs / N, bins, magnitude, max };
+};
+
+export const calculateStats = (data: ProcessedChannels, axis: DataAxis, startTime?: number, endTime?: number): AnalysisStats => {
+  // Restrict to time range if provided (time is sorted, so this is a zero-copy slice)
   let slice = data;
   if (startTime !== undefined && endTime !== undefined) {
-    slice = data.filter(d => d.time >= startTime && d.time <= endTime);
+    slice = sliceChannels(data, findTimeIndex(data.time, startTime), findTimeIndex(data.time, endTime, true));
   }
+  const n = slice.time.length;
 
-  if (slice.length === 0) {
+  if (n === 0) {
     return { peakVal: 0, peakTime: 0, rms: 0, pkPk: 0, zeroPk: 0, a95: 0 };
   }
 
   // 1. Extract Series & RMS
-  const values = new Float64Array(slice.length);
+  const values = slice[axis];
   let sumSq = 0;
   let overallMaxAbs = 0;
   let overallMaxPoint: Point = { time: 0, value: 0 };
 
-  for (let i = 0; i < slice.length; i++) {
-    const val = slice[i][axis];
-    values[i] = val;
+  for (let i = 0; i < n; i++) {
+    const val = values[i];
     sumSq += val * val;
     
     if (Math.abs(val) > overallMaxAbs) {
       overallMaxAbs = Math.abs(val);
-      overallMaxPoint = { time: slice[i].time, value: val };
+      overallMaxPoint = { time: slice.time[i], value: val };
     }
   }
 
-  const rms = Math.sqrt(sumSq / slice.length);
+  const rms = Math.sqrt(sumSq / n);
 
   // If not an acceleration axis, simple Max-Min is sufficient
-  if (axis === 'vz' || axis === 'sz') {
+  if (axis === 'vz' || axis === 'sz' || axis === 'jz') {
      let min = Infinity, max = -Infinity;
      for(let v of values) {
        if(v < min) min = v;
@@ -239,12 +426,12 @@ export const calculateStats = (data: ProcessedDataPoint[], axis: DataAxis, start
     return {
       value: values[bestIdx],
       abs: maxAbs,
-      time: slice[bestIdx].time,
+      time: slice.time[bestIdx],
       idx: bestIdx
     };
   };
 
-  for (let i = 0; i < slice.length - 1; i++) {
+  for (let i = 0; i < n - 1; i++) {
     const v1 = values[i];
     const v2 = values[i+1];
     
@@ -256,7 +443,7 @@ export const calculateStats = (data: ProcessedDataPoint[], axis: DataAxis, start
       lastZC = i + 1;
     }
   }
-  const lastPeak = findLocalPeak(lastZC, slice.length);
+  const lastPeak = findLocalPeak(lastZC, n);
   if (lastPeak) peaks.push(lastPeak);
 
   // 3. Calculate Pk-Pk Values (Adjacent peaks)
@@ -308,9 +495,13 @@ export const calculateStats = (data: ProcessedDataPoint[], axis: DataAxis, start
   };
 };
 
-export const downsampleData = (data: ProcessedDataPoint[], targetCount: number = 5000): ProcessedDataPoint[] => {
-  const len = data.length;
-  if (len <= targetCount) return data;
+// Builds point objects for charting only: keeps the first sample and the largest |a| of each bucket
+export const downsampleData = (data: ProcessedChannels, targetCount: number = 5000): ProcessedDataPoint[] => {
+  const len = data.time.length;
+  const pointAt = (i: number): ProcessedDataPoint => ({
+    time: data.time[i], ax: data.ax[i], ay: data.ay[i], az: data.az[i], vz: data.vz[i], sz: data.sz[i], jz: data.jz[i]
+  });
+  if (len <= targetCount) return Array.from({ length: len }, (_, i) => pointAt(i));
   
   const buckets = Math.floor(targetCount / 2);
   const step = Math.floor(len / buckets);
@@ -322,64 +513,65 @@ export const downsampleData = (data: ProcessedDataPoint[], targetCount: number =
     let maxIdx = i;
     
     for(let j=i; j<end; j++) {
-      const val = Math.max(Math.abs(data[j].ax), Math.abs(data[j].ay), Math.abs(data[j].az));
+      const val = Math.max(Math.abs(data.ax[j]), Math.abs(data.ay[j]), Math.abs(data.az[j]));
       if (val > maxAbs) {
         maxAbs = val;
         maxIdx = j;
       }
     }
-    result.push(data[i]);
-    if (maxIdx !== i) result.push(data[maxIdx]);
+    result.push(pointAt(i));
+    if (maxIdx !== i) result.push(pointAt(maxIdx));
   }
   return result;
 };
 
 // --- ISO 18738 / GB/T 24474 Specific Calculations ---
 
-export const calculateLiftBoundaries = (data: ProcessedDataPoint[]): ElevatorBoundaries => {
-  const n = data.length;
+export const calculateLiftBoundaries = (data: ProcessedChannels): ElevatorBoundaries => {
+  const n = data.time.length;
   if (n === 0) return { t0: 0, t1: 0, t2: 0, t3: 0, isValid: false };
+  const { time, vz } = data;
 
   // Find max velocity (assuming simple run)
   let vMax = 0;
   for(let i=0; i<n; i++) {
-    if (Math.abs(data[i].vz) > vMax) vMax = Math.abs(data[i].vz);
+    if (Math.abs(vz[i]) > vMax) vMax = Math.abs(vz[i]);
   }
 
   // Thresholds
   const motionThreshold = vMax * 0.05; // 5% of Vmax counts as motion
   const constVelThreshold = vMax * 0.95; // 95% of Vmax counts as constant velocity
 
-  let t0 = 0, t1 = 0, t2 = 0, t3 = data[n-1].time;
+  let t0 = 0, t1 = 0, t2 = 0, t3 = time[n-1];
   
   // Find t0 (Start of motion)
   for(let i=0; i<n; i++) {
-    if (Math.abs(data[i].vz) > motionThreshold) {
-      t0 = data[i].time;
+    if (Math.abs(vz[i]) > motionThreshold) {
+      t0 = time[i];
       break;
     }
   }
 
   // Find t3 (End of motion) - search backwards
   for(let i=n-1; i>=0; i--) {
-    if (Math.abs(data[i].vz) > motionThreshold) {
-      t3 = data[i].time;
+    if (Math.abs(vz[i]) > motionThreshold) {
+      t3 = time[i];
       break;
     }
   }
 
   // Find t1 (Start of Const Vel)
   for(let i=0; i<n; i++) {
-    if (data[i].time > t0 && Math.abs(data[i].vz) > constVelThreshold) {
-      t1 = data[i].time;
+    if (time[i] > t0 && Math.abs(vz[i]) > constVelThreshold) {
+      t1 = time[i];
       break;
     }
   }
 
   // Find t2 (End of Const Vel)
   for(let i=n-1; i>=0; i--) {
-    if (data[i].time < t3 && Math.abs(data[i].vz) > constVelThreshold) {
-      t2 = data[i].time;
+    if (time[i] < t3 && Math.abs(vz[i]) > constVelThreshold) {
+      t2 = time[i];
       break;
     }
   }
@@ -394,7 +586,7 @@ export const calculateLiftBoundaries = (data: ProcessedDataPoint[]): ElevatorBou
   return { t0, t1, t2, t3, isValid: true };
 };
 
-export const calculateIsoStats = (data: ProcessedDataPoint[], bounds: ElevatorBoundaries): IsoStats => {
+export const calculateIsoStats = (data: ProcessedChannels, bounds: ElevatorBoundaries): IsoStats => {
   const { t0, t1, t2, t3 } = bounds;
 
   // X Axis: Const Vel region only (t1-t2)
@@ -416,3 +608,113 @@ export const calculateIsoStats = (data: ProcessedDataPoint[], bounds: ElevatorBo
     z: { constVel: zConst, global: zGlobal }
   };
 };
+
+// Acceleration is evaluated low-passed at this frequency (Hz, ISO 18738-1)
+const KINEMATIC_LOW_PASS_FREQ = 10;
+
+// Value of |x| not exceeded by 95% of the samples in [i0, i1)
+const percentile95 = (values: Float64Array, i0: number, i1: number): number => {
+  if (i1 <= i0) return 0;
+  const sorted = Float64Array.from(values.subarray(i0, i1), Math.abs).sort();
+  return sorted[Math.max(0, Math.ceil(0.95 * sorted.length) - 1)];
+};
+
+// 1. Acceleration (t0-t1) and deceleration (t2-t3) phases on the 10 Hz low-passed az
+// 2. Jerk and velocity over the run, V95 over the constant-velocity phase
+export const calculateKinematics = (data: ProcessedChannels, bounds: ElevatorBoundaries, fs: number): KinematicSummary => {
+  const { time, vz, jz } = data;
+  const { t0, t1, t2, t3 } = bounds;
+  const index = (t: number, after = false) => findTimeIndex(time, t, after);
+
+  // 1. Phases
+  const az = lowPassSeries(data.azMotion ?? data.az, Math.min(KINEMATIC_LOW_PASS_FREQ, 0.4 * fs), fs);
+  const phase = (start: number, end: number): PhaseKinematics => {
+    const i0 = index(start), i1 = index(end, true);
+    let max = 0;
+    for (let i = i0; i < i1; i++) max = Math.max(max, Math.abs(az[i]));
+    return { duration: end - start, max, a95: percentile95(az, i0, i1) };
+  };
+
+  // 2. Run
+  const r0 = index(t0), r1 = index(t3, true);
+  let maxJerk: Point = { time: t0, value: 0 };
+  let maxVelocity = 0;
+  for (let i = r0; i < r1; i++) {
+    if (Math.abs(jz[i]) > Math.abs(maxJerk.value)) maxJerk = { time: time[i], value: jz[i] };
+    maxVelocity = Math.max(maxVelocity, Math.abs(vz[i]));
+  }
+
+  return {
+    accel: phase(t0, t1),
+    decel: phase(t2, t3),
+    constVelDuration: t2 - t1,
+    runDuration: t3 - t0,
+    maxJerk,
+    maxVelocity,
+    v95: percentile95(vz, index(t1), index(t2, true))
+  };
+};
+
+// --- Multiple Runs ---
+
+// Segments travelling less than this (m) are re-levelling or noise, not a trip
+const MIN_RUN_DISTANCE = 0.5;
+
+// Splits a recording of several trips at the stops between them:
+// 1. Stops where |vz| stays low (the ends of the recording count at any length)
+// 2. Segments from the middle of one stop to the middle of the next; direction and distance from sz
+// 3. Boundaries, ISO stats and kinematics per segment, as if it were a recording of its own
+export const detectRuns = (data: ProcessedChannels, fs: number): LiftRun[] => {
+  const { time, vz, sz } = data;
+  const n = time.length;
+  if (n === 0) return [];
+
+  // 1. Stops
+  const stops = detectStops(vz, fs);
+  const cuts = [0, ...stops.filter(s => s.start > 0 && s.end < n).map(s => (s.start + s.end) >> 1), n];
+
+  // 2. Segments
+  const runs: LiftRun[] = [];
+  for (let k = 0; k < cuts.length - 1; k++) {
+    const start = cuts[k], end = cuts[k + 1];
+    if (end - start < 2) continue;
+    const travel = sz[end - 1] - sz[start];
+    if (Math.abs(travel) < MIN_RUN_DISTANCE) continue;
+
+    // 3. Evaluation
+    const slice = sliceChannels(data, start, end);
+    const boundaries = calculateLiftBoundaries(slice);
+    runs.push({
+      start: time[start],
+      end: time[end - 1],
+      direction: travel > 0 ? 'up' : 'down',
+      distance: Math.abs(travel),
+      boundaries,
+      isoStats: calculateIsoStats(slice, boundaries),
+      kinematics: calculateKinematics(slice, boundaries, fs)
+    });
+  }
+  return runs;
+};
+
+// --- Manual Boundaries ---
+
+export const NO_BOUNDARY_OVERRIDES: BoundaryOverrides = { runs: [] };
+
+// A saved override belongs to a run when they share more than this fraction of the longer span
+const MIN_RUN_OVERLAP = 0.5;
+
+// Index of the override set on this run (largest overlap), or -1
+export const findRunOverride = (run: Pick<LiftRun, 'start' | 'end'>, overrides: RunBoundaryOverride[]): number => {
+  let best = -1;
+  let bestFraction = MIN_RUN_OVERLAP;
+  overrides.forEach((o, i) => {
+    const overlap = Math.min(run.end, o.end) - Math.max(run.start, o.start);
+    const fraction = overlap / Math.max(run.end - run.start, o.end - o.start);
+    if (fraction > bestFraction) {
+      best = i;
+      bestFraction = fraction;
+    }
+  });
+  return best;
+};
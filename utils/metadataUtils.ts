@@ -0,0 +1,118 @@
+import { RecordingInfo, RecordingMetadata } from '../types';
+
+export const EMPTY_METADATA: RecordingMetadata = {
+  elevatorId: '',
+  site: '',
+  ratedSpeed: null,
+  ratedAcceleration: null,
+  loadKg: null,
+  direction: '',
+  startFloor: '',
+  stopFloor: '',
+  sensorSerial: '',
+  technician: '',
+  date: ''
+};
+
+// Header keys (normalised: lower case, letters/digits/CJK only) for each metadata field
+const HEADER_KEYS: Record<Exclude<keyof RecordingMetadata, 'sensorSerial'>, string[]> = {
+  elevatorId: ['elevator', 'elevatorid', 'elevatorno', 'lift', 'liftid', 'liftno', 'installation', 'installationid', '电梯编号', '梯号', '电梯'],
+  site: ['site', 'siteaddress', 'address', 'location', '地址', '现场', '安装地址', '项目'],
+  ratedSpeed: ['ratedspeed', 'speed', 'nominalspeed', '额定速度', '速度'],
+  ratedAcceleration: ['ratedacceleration', 'nominalacceleration', '额定加速度'],
+  loadKg: ['load', 'carload', 'loadkg', 'testload', '载荷', '载重', '负载'],
+  direction: ['direction', 'traveldirection', 'dir', '方向', '运行方向'],
+  startFloor: ['startfloor', 'fromfloor', 'from', 'departurefloor', '起始楼层', '起始层', '出发层'],
+  stopFloor: ['stopfloor', 'tofloor', 'to', 'endfloor', 'arrivalfloor', '停止楼层', '目标层', '到达层'],
+  technician: ['technician', 'operator', 'tester', 'inspector', 'engineer', '检测员', '测试人员', '操作员'],
+  date: ['date', 'testdate', 'recordingdate', 'recorded', '日期', '测试日期']
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/\(.*?\)|\[.*?\]/g, '').replace(/[^a-z0-9一-龥]/g, '');
+
+const parseDirection = (text: string): RecordingMetadata['direction'] => {
+  const v = text.trim().toLowerCase();
+  if (/^(up|u|upward|ascending|上|上行)$/.test(v)) return 'up';
+  if (/^(down|d|dn|downward|descending|下|下行)$/.test(v)) return 'down';
+  return '';
+};
+
+// "2025-03-14", "2025/3/14", "20250314" -> "2025-03-14"
+const parseDate = (text: string): string => {
+  const match = text.match(/(20\d{2})[-/.年]?(\d{1,2})[-/.月]?(\d{1,2})/);
+  if (!match) return '';
+  const [, y, m, d] = match;
+  if (Number(m) < 1 || Number(m) > 12 || Number(d) < 1 || Number(d) > 31) return '';
+  return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+};
+
+const parseLeadingNumber = (text: string): number | null => {
+  const value = parseFloat(text.replace(',', '.'));
+  return isNaN(value) ? null : value;
+};
+
+// Key/value preamble lines such as "Elevator: EL-03", "Rated speed = 1.75 m/s" or "运行方向,上行"
+export const parseMetadataHeader = (lines: string[]): Partial<RecordingMetadata> => {
+  const found: Partial<RecordingMetadata> = {};
+  for (const line of lines) {
+    const match = line.match(/^\s*[#%/]*\s*"?([^:=,;\t"]+?)"?\s*[:=,;\t]\s*"?(.*?)"?\s*$/);
+    if (!match || !match[2]) continue;
+    const key = normalizeKey(match[1]);
+    const value = match[2].trim();
+
+    const field = (Object.keys(HEADER_KEYS) as (keyof typeof HEADER_KEYS)[]).find(f => HEADER_KEYS[f].includes(key));
+    if (!field || found[field] !== undefined) continue;
+
+    if (field === 'ratedSpeed' || field === 'ratedAcceleration' || field === 'loadKg') {
+      const num = parseLeadingNumber(value);
+      // Speeds are sometimes given in m/min
+      if (num !== null) found[field] = field === 'ratedSpeed' && /m\/min/i.test(value) ? num / 60 : num;
+    } else if (field === 'direction') {
+      const dir = parseDirection(value);
+      if (dir) found.direction = dir;
+    } else if (field === 'date') {
+      const date = parseDate(value);
+      if (date) found.date = date;
+    } else {
+      found[field] = value;
+    }
+  }
+  return found;
+};
+
+// Hints from names like "EL03_up_1-12F_2025-03-14.csv" or "3号梯_下行_20250314.txt"
+export const parseMetadataFileName = (fileName: string): Partial<RecordingMetadata> => {
+  const found: Partial<RecordingMetadata> = {};
+  let base = fileName.replace(/\.[^.]+$/, '');
+
+  const dateMatch = base.match(/(20\d{2})[-_.]?(0[1-9]|1[0-2])[-_.]?(0[1-9]|[12]\d|3[01])/);
+  if (dateMatch) {
+    found.date = `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`;
+    base = base.replace(dateMatch[0], '_');
+  }
+
+  const dirMatch = base.match(/(?:^|[^a-z])(up|down|dn)(?=[^a-z]|$)|(上行|下行)/i);
+  if (dirMatch) found.direction = parseDirection(dirMatch[1] || dirMatch[2]);
+
+  const floorMatch = base.match(/(?:^|[^a-z0-9])F?(B?\d{1,3})F?\s*(?:-|~|to|→)\s*F?(B?\d{1,3})F?(?=[^a-z0-9]|$)/i);
+  if (floorMatch) {
+    found.startFloor = floorMatch[1].toUpperCase();
+    found.stopFloor = floorMatch[2].toUpperCase();
+  }
+
+  const idMatch = base.match(/(?:^|[^a-z])((?:el|lift|elev)[-_]?\d+)|(\d+号梯)/i);
+  if (idMatch) found.elevatorId = (idMatch[1] || idMatch[2]).toUpperCase();
+
+  return found;
+};
+
+// Prefill for the metadata form: file name hints, overridden by the file header
+export const buildMetadata = (info: RecordingInfo, fileName: string): RecordingMetadata => ({
+  ...EMPTY_METADATA,
+  ...parseMetadataFileName(fileName),
+  ...(info.metadata ?? {}),
+  sensorSerial: info.deviceId ?? ''
+});
+
+export const hasMetadata = (metadata: RecordingMetadata) =>
+  Object.values(metadata).some(v => v !== '' && v !== null);
@@ -0,0 +1,81 @@
+import { OctaveBand, OctaveBandLevel, ProcessedChannels } from '../types';
+import { causalStageSeries, createFilterStage } from './dspUtils';
+import { findTimeIndex } from './mathUtils';
+
+// Octave frequency ratio G = 10^(3/10) and reference frequency (IEC 61260-1, base-10 system)
+const OCTAVE_RATIO = Math.pow(10, 0.3);
+const REFERENCE_FREQ = 1000;
+
+// Band numbers relative to 1 kHz: -30 is the 1 Hz band, -11 the 80 Hz band
+const FIRST_BAND = -30;
+const LAST_BAND = -11;
+
+// Preferred mid-band labels within a decade
+const PREFERRED_LABELS = [1, 1.25, 1.6, 2, 2.5, 3.15, 4, 5, 6.3, 8];
+
+// Butterworth prototype order; 4 is well inside the class 1 attenuation limits
+const BAND_ORDER = 4;
+
+// Bands whose upper edge comes this close to fs/2 are left out (bilinear warping squeezes their skirt)
+const MAX_UPPER_FRACTION = 0.45;
+
+// Residual of a band filter's start-up transient when the span begins
+const SETTLING_TOLERANCE = 1e-4;
+
+// Pre-roll (s) for a band filter to settle: the slowest poles of an order-N Butterworth band-pass
+// of width B decay as exp(-π·B·sin(π / 2N)·t)
+const settlingSeconds = (band: OctaveBand) =>
+  Math.log(1 / SETTLING_TOLERANCE) / (Math.PI * (band.upper - band.lower) * Math.sin(Math.PI / (2 * BAND_ORDER)));
+
+// 1/3-octave bands from 1 Hz to 80 Hz that fit below the sample rate
+export const thirdOctaveBands = (fs: number): OctaveBand[] => {
+  const bands: OctaveBand[] = [];
+  for (let x = FIRST_BAND; x <= LAST_BAND; x++) {
+    const center = REFERENCE_FREQ * Math.pow(OCTAVE_RATIO, x / 3);
+    const upper = center * Math.pow(OCTAVE_RATIO, 1 / 6);
+    if (upper > MAX_UPPER_FRACTION * fs) break;
+    const step = x - FIRST_BAND;
+    bands.push({
+      nominal: PREFERRED_LABELS[step % 10] * Math.pow(10, Math.floor(step / 10)),
+      center,
+      lower: center * Math.pow(OCTAVE_RATIO, -1 / 6),
+      upper
+    });
+  }
+  return bands;
+};
+
+// Band RMS (Gal) of each acceleration axis over [start, end] s.
+// Each band is a causal Butterworth band-pass with its -3 dB points on the band edges, so
+// adjacent bands add up to the broadband energy. Filtering starts a settling pre-roll before
+// the span (about 33 s for the 1 Hz band, about 1 s at 25 Hz), or at the recording start.
+export const calculateThirdOctave = (data: ProcessedChannels, fs: number, start: number, end: number): OctaveBandLevel[] => {
+  const i0 = findTimeIndex(data.time, start);
+  const i1 = findTimeIndex(data.time, end, true);
+  if (i1 - i0 < 2) return [];
+
+  return thirdOctaveBands(fs).map(band => {
+    const stage = { ...createFilterStage('bandpass'), order: BAND_ORDER as 4, freq: band.lower, freqHigh: band.upper };
+    const from = Math.max(0, i0 - Math.ceil(settlingSeconds(band) * fs));
+    const rms = (series: Float64Array) => {
+      const filtered = causalStageSeries(series.subarray(from, i1), stage, fs);
+      let sumSq = 0;
+      for (let i = i0 - from; i < i1 - from; i++) sumSq += filtered[i] * filtered[i];
+      return Math.sqrt(sumSq / (i1 - i0));
+    };
+    return { ...band, x: rms(data.ax), y: rms(data.ay), z: rms(data.az) };
+  });
+};
+
+export const thirdOctaveCsv = (levels: OctaveBandLevel[]): string => [
+  'Band (Hz),Centre (Hz),Lower (Hz),Upper (Hz),X RMS (Gal),Y RMS (Gal),Z RMS (Gal)',
+  ...levels.map(l => [
+    l.nominal,
+    l.center.toFixed(3),
+    l.lower.toFixed(3),
+    l.upper.toFixed(3),
+    l.x.toFixed(4),
+    l.y.toFixed(4),
+    l.z.toFixed(4)
+  ].join(','))
+].join('\n');
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { RawChannels } from '../types';
+import { applyOrientation, DEFAULT_ORIENTATION, UPSIDE_DOWN_ORIENTATION } from './orientationUtils';
+import { processVibrationData } from './mathUtils';
+
+const FS = 100;
+const GRAVITY_GAL = 980.665;
+
+// Logger standing still for 2 s, tilted by `tiltDeg` about Y, then a small vertical bump
+const tiltedRecording = (tiltDeg: number): RawChannels => {
+  const n = 4 * FS;
+  const tilt = tiltDeg * Math.PI / 180;
+  const data: RawChannels = { time: new Float64Array(n), ax: new Float64Array(n), ay: new Float64Array(n), az: new Float64Array(n) };
+  for (let i = 0; i < n; i++) {
+    const t = i / FS;
+    const vertical = GRAVITY_GAL + (t > 2 ? 20 * Math.sin(2 * Math.PI * t) : 0);
+    data.time[i] = t;
+    data.ax[i] = vertical * Math.sin(tilt);
+    data.az[i] = vertical * Math.cos(tilt);
+  }
+  return data;
+};
+
+const LEVELLING = { ...DEFAULT_ORIENTATION, levelFromGravity: true };
+
+describe('applyOrientation', () => {
+  it('levels a tilted recording from gravity', () => {
+    const { data, result } = applyOrientation(tiltedRecording(17.5), FS, LEVELLING);
+    expect(result.warning).toBeNull();
+    expect(result.tiltDeg).toBeCloseTo(17.5, 6);
+    expect(data.az[0]).toBeCloseTo(GRAVITY_GAL, 6);
+    expect(data.ax[0]).toBeCloseTo(0, 6);
+  });
+
+  // The import worker's processed channels have their means removed, so they cannot be levelled
+  it('reports no gravity on mean-removed channels', () => {
+    const processed = processVibrationData(tiltedRecording(17.5), FS);
+    const { result } = applyOrientation(processed, FS, LEVELLING);
+    expect(result.warning).toBe('noGravity');
+    expect(result.rotation).toBeNull();
+  });
+
+  it('returns the input unchanged when nothing is configured', () => {
+    const input = tiltedRecording(0);
+    expect(applyOrientation(input, FS, DEFAULT_ORIENTATION).data).toBe(input);
+  });
+
+  it('flips signs into new arrays', () => {
+    const input = tiltedRecording(0);
+    const { data } = applyOrientation(input, FS, UPSIDE_DOWN_ORIENTATION);
+    expect(data).not.toBe(input);
+    expect(data.az[0]).toBe(-input.az[0]);
+    expect(input.az[0]).toBeCloseTo(GRAVITY_GAL, 6);
+  });
+});
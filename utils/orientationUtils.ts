@@ -0,0 +1,126 @@
+import { RawChannels, OrientationConfig, OrientationResult, SensorAxis } from '../types';
+
+const GRAVITY_GAL = 980.665;
+
+// Static magnitude outside this range means the logger is AC-coupled (no gravity in the signal)
+const GRAVITY_TOLERANCE = 0.3;
+
+// RMS of |a| in the stationary segment above this (Gal) means the car was already moving
+const STATIONARY_RMS_LIMIT = 10;
+
+export const DEFAULT_ORIENTATION: OrientationConfig = {
+  remap: {
+    x: { from: 'x', sign: 1 },
+    y: { from: 'y', sign: 1 },
+    z: { from: 'z', sign: 1 }
+  },
+  levelFromGravity: false,
+  stationarySeconds: 1
+};
+
+// Sensor mounted upside down: rotate 180° about X
+export const UPSIDE_DOWN_ORIENTATION: OrientationConfig = {
+  ...DEFAULT_ORIENTATION,
+  remap: {
+    x: { from: 'x', sign: 1 },
+    y: { from: 'y', sign: -1 },
+    z: { from: 'z', sign: -1 }
+  }
+};
+
+const isIdentityRemap = (remap: OrientationConfig['remap']) =>
+  (['x', 'y', 'z'] as SensorAxis[]).every(axis => remap[axis].from === axis && remap[axis].sign === 1);
+
+// Each sensor axis feeds exactly one car axis (otherwise one axis is lost)
+export const isPermutation = (remap: OrientationConfig['remap']) =>
+  new Set([remap.x.from, remap.y.from, remap.z.from]).size === 3;
+
+// Rotation taking unit vector u onto +z (Rodrigues), row-major 3x3
+const rotationToVertical = (u: [number, number, number]): number[] => {
+  const [ux, uy, uz] = u;
+  // Axis k = u × ez = (uy, -ux, 0), cos = uz
+  const c = uz;
+  if (c < -1 + 1e-9) {
+    // Exactly upside down: any 180° turn about a horizontal axis will do
+    return [1, 0, 0, 0, -1, 0, 0, 0, -1];
+  }
+  const kx = uy, ky = -ux;
+  const f = 1 / (1 + c);
+  return [
+    c + kx * kx * f, kx * ky * f, ky,
+    kx * ky * f, c + ky * ky * f, -kx,
+    -ky, kx, c
+  ];
+};
+
+// Gravity vector (Gal) as the mean of the first `seconds` of the recording, plus how still the sensor was
+const estimateGravity = (data: RawChannels, seconds: number, fs: number) => {
+  const n = Math.max(1, Math.min(data.time.length, Math.round(seconds * fs)));
+  let sx = 0, sy = 0, sz = 0;
+  for (let i = 0; i < n; i++) {
+    sx += data.ax[i];
+    sy += data.ay[i];
+    sz += data.az[i];
+  }
+  const g: [number, number, number] = [sx / n, sy / n, sz / n];
+
+  let sumSq = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = data.ax[i] - g[0], dy = data.ay[i] - g[1], dz = data.az[i] - g[2];
+    sumSq += dx * dx + dy * dy + dz * dz;
+  }
+  return { g, rms: Math.sqrt(sumSq / n) };
+};
+
+// Correct sensor mounting so that az is vertical and ax/ay are the car's horizontal axes.
+// 1. Swap / sign-flip axes per `remap`
+// 2. Optionally level the result using gravity measured while the car stands still before the run
+// Returns the input object unchanged when nothing is configured, so downstream caches stay valid.
+export const applyOrientation = (
+  data: RawChannels,
+  fs: number,
+  config: OrientationConfig
+): { data: RawChannels; result: OrientationResult } => {
+  const result: OrientationResult = { rotation: null, gravity: null, tiltDeg: null, warning: null };
+  const { remap } = config;
+
+  if (!isPermutation(remap)) result.warning = 'notPermutation';
+  if (isIdentityRemap(remap) && !config.levelFromGravity) return { data, result };
+
+  // 1. Remap
+  const source: Record<SensorAxis, Float64Array> = { x: data.ax, y: data.ay, z: data.az };
+  const n = data.time.length;
+  const out: RawChannels = { time: data.time, ax: new Float64Array(n), ay: new Float64Array(n), az: new Float64Array(n) };
+  const targets: [Float64Array, SensorAxis][] = [[out.ax, 'x'], [out.ay, 'y'], [out.az, 'z']];
+  for (const [target, axis] of targets) {
+    const { from, sign } = remap[axis];
+    const src = source[from];
+    for (let i = 0; i < n; i++) target[i] = src[i] * sign;
+  }
+
+  if (!config.levelFromGravity || n === 0) return { data: out, result };
+
+  // 2. Level from gravity
+  const { g, rms } = estimateGravity(out, config.stationarySeconds, fs);
+  const mag = Math.hypot(g[0], g[1], g[2]);
+  result.gravity = g;
+  if (Math.abs(mag - GRAVITY_GAL) > GRAVITY_GAL * GRAVITY_TOLERANCE) {
+    result.warning = result.warning ?? 'noGravity';
+    return { data: out, result };
+  }
+  if (rms > STATIONARY_RMS_LIMIT) result.warning = result.warning ?? 'moving';
+
+  const u: [number, number, number] = [g[0] / mag, g[1] / mag, g[2] / mag];
+  const r = rotationToVertical(u);
+  result.rotation = r;
+  result.tiltDeg = Math.acos(Math.min(1, Math.max(-1, u[2]))) * 180 / Math.PI;
+
+  for (let i = 0; i < n; i++) {
+    const x = out.ax[i], y = out.ay[i], z = out.az[i];
+    out.ax[i] = r[0] * x + r[1] * y + r[2] * z;
+    out.ay[i] = r[3] * x + r[4] * y + r[5] * z;
+    out.az[i] = r[6] * x + r[7] * y + r[8] * z;
+  }
+
+  return { data: out, result };
+};
@@ -0,0 +1,171 @@
+import { ElevatorComponent, ElevatorConfig, HarmonicFamily, SpectralPeak, SpectrumResult } from '../types';
+
+export const DEFAULT_ELEVATOR_CONFIG: ElevatorConfig = {
+  carSpeed: null,
+  sheaveDiameter: 400,
+  ropingRatio: 2,
+  railLength: 5,
+  rollerDiameter: 100,
+  motorPoles: 20
+};
+
+// A peak must stand this far above the running median of its neighbourhood
+const MIN_SNR_DB = 12;
+
+// Strongest peaks kept (by SNR)
+const MAX_PEAKS = 15;
+
+// Noise floor median spans at least this many lines on each side
+const MIN_FLOOR_HALF_WIDTH = 12;
+
+// Relative tolerance for component matches (speed and diameters are rarely exact)
+const MATCH_TOLERANCE = 0.03;
+
+// Highest harmonic order collected into a family, and attributed to a component
+const MAX_HARMONIC = 10;
+
+// --- Component Frequencies ---
+
+// Excitation frequencies (Hz) at car speed v (m/s):
+// sheave v·r / (π·D), motor pole pass = poles × sheave rotation (gearless),
+// rail joints v / L, guide rollers v / (π·d)
+export const componentFrequencies = (config: ElevatorConfig, speed: number): Record<ElevatorComponent, number> => {
+  const valid = (x: number) => (isFinite(x) && x > 0 ? x : 0);
+  const sheave = valid(speed * config.ropingRatio / (Math.PI * config.sheaveDiameter / 1000));
+  return {
+    sheave,
+    motorPole: valid(sheave * config.motorPoles),
+    railJoint: valid(speed / config.railLength),
+    roller: valid(speed / (Math.PI * config.rollerDiameter / 1000))
+  };
+};
+
+// --- Peaks ---
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Local maxima over the window's main lobe that clear the running-median noise floor
+const findPeaks = (spectrum: SpectrumResult, power: boolean): SpectralPeak[] => {
+  const { data, rbw, binWidth } = spectrum;
+  const n = data.length;
+  if (n < 3 || binWidth <= 0) return [];
+
+  // Main lobe half-width is about 1.3 × RBW for the usual windows
+  const lobe = Math.max(1, Math.ceil(1.5 * rbw / binWidth));
+  const floorHalf = Math.max(MIN_FLOOR_HALF_WIDTH, 6 * lobe);
+  const dbPerDecade = power ? 10 : 20;
+
+  const peaks: SpectralPeak[] = [];
+  for (let k = 1; k < n - 1; k++) {
+    const m = data[k].magnitude;
+    let isMax = m > 0;
+    for (let j = Math.max(0, k - lobe); j <= Math.min(n - 1, k + lobe) && isMax; j++) {
+      if (data[j].magnitude > m || (data[j].magnitude === m && j < k)) isMax = false;
+    }
+    if (!isMax) continue;
+
+    const neighbours: number[] = [];
+    for (let j = Math.max(0, k - floorHalf); j <= Math.min(n - 1, k + floorHalf); j++) neighbours.push(data[j].magnitude);
+    const floor = median(neighbours);
+    const snrDb = floor > 0 ? dbPerDecade * Math.log10(m / floor) : Infinity;
+    if (snrDb < MIN_SNR_DB) continue;
+
+    // Parabolic interpolation between lines
+    const a = data[k - 1].magnitude, c = data[k + 1].magnitude;
+    const curvature = a - 2 * m + c;
+    const delta = curvature < 0 ? 0.5 * (a - c) / curvature : 0;
+    peaks.push({ frequency: data[k].frequency + delta * binWidth, magnitude: m, snrDb, family: null, order: null, match: null });
+  }
+
+  return peaks
+    .sort((p, q) => q.snrDb - p.snrDb)
+    .slice(0, MAX_PEAKS)
+    .sort((p, q) => p.frequency - q.frequency);
+};
+
+// --- Identification ---
+
+// Component multiple within tolerance; the lowest multiple wins (motor pole pass over
+// the 20th sheave order), then the smallest error
+const matchComponent = (
+  frequency: number,
+  components: Record<ElevatorComponent, number>,
+  tolerance: (component: ElevatorComponent, f: number) => number
+): SpectralPeak['match'] => {
+  let best: SpectralPeak['match'] = null, bestError = Infinity;
+  (Object.keys(components) as ElevatorComponent[]).forEach(component => {
+    const f = components[component];
+    if (f <= 0) return;
+    const harmonic = Math.round(frequency / f);
+    if (harmonic < 1 || harmonic > MAX_HARMONIC) return;
+    const error = Math.abs(frequency - harmonic * f);
+    if (error > tolerance(component, frequency)) return;
+    if (!best || harmonic < best.harmonic || (harmonic === best.harmonic && error < bestError)) {
+      best = { component, harmonic };
+      bestError = error;
+    }
+  });
+  return best;
+};
+
+// 1. Significant peaks above the noise floor
+// 2. Harmonic families: from the lowest unassigned peak upwards, collect peaks at its integer multiples
+// 3. Match each family (through its fundamental) to the elevator's component frequencies; a matched
+//    family pins that component's actual rate, which lone peaks are then held to
+export const identifyPeaks = (
+  spectrum: SpectrumResult,
+  components: Record<ElevatorComponent, number>,
+  power = false
+): { peaks: SpectralPeak[]; families: HarmonicFamily[] } => {
+  // 1. Peaks
+  const peaks = findPeaks(spectrum, power);
+  // Harmonics of a measured fundamental line up to within the resolution;
+  // calculated component frequencies carry the uncertainty of speed and geometry
+  const resolution = Math.max(spectrum.binWidth, spectrum.rbw / 2);
+  const loose = (_: ElevatorComponent, f: number) => Math.max(resolution, f * MATCH_TOLERANCE);
+
+  // 2. Families
+  const families: HarmonicFamily[] = [];
+  peaks.forEach(fundamental => {
+    if (fundamental.family !== null) return;
+    const members = peaks.filter(p => {
+      if (p === fundamental || p.family !== null) return false;
+      const order = Math.round(p.frequency / fundamental.frequency);
+      return order >= 2 && order <= MAX_HARMONIC && Math.abs(p.frequency - order * fundamental.frequency) <= resolution;
+    });
+    if (members.length === 0) return;
+
+    const index = families.length;
+    fundamental.family = index;
+    fundamental.order = 1;
+    members.forEach(p => {
+      p.family = index;
+      p.order = Math.round(p.frequency / fundamental.frequency);
+    });
+    families.push({ fundamental: fundamental.frequency, members: members.length + 1, match: null });
+  });
+
+  // 3. Components (families in order of size, so the clearest one pins a component first)
+  const measured = { ...components };
+  const pinned = new Set<ElevatorComponent>();
+  const pinnedTolerance = (component: ElevatorComponent, f: number) => pinned.has(component) ? resolution : loose(component, f);
+  [...families].sort((a, b) => b.members - a.members).forEach(family => {
+    family.match = matchComponent(family.fundamental, measured, pinnedTolerance);
+    if (family.match && !pinned.has(family.match.component)) {
+      measured[family.match.component] = family.fundamental / family.match.harmonic;
+      pinned.add(family.match.component);
+    }
+  });
+  peaks.forEach(p => {
+    const family = p.family !== null ? families[p.family] : null;
+    p.match = family?.match && p.order
+      ? { component: family.match.component, harmonic: family.match.harmonic * p.order }
+      : matchComponent(p.frequency, measured, pinnedTolerance);
+  });
+
+  return { peaks, families };
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { RawChannels, RecordingInfo, SessionSettings } from '../types';
+import { createSession, readSession, SESSION_FORMAT, SESSION_VERSION } from './sessionUtils';
+import { createFilterStage } from './dspUtils';
+import { DEFAULT_SPECTRUM_CONFIG, DEFAULT_SPECTROGRAM_CONFIG } from './mathUtils';
+import { NO_DRIFT_CORRECTION } from './integrationUtils';
+import { DEFAULT_ENVELOPE_CONFIG } from './envelopeUtils';
+import { DEFAULT_ELEVATOR_CONFIG } from './peakUtils';
+import { DEFAULT_ORIENTATION } from './orientationUtils';
+import { EMPTY_METADATA } from './metadataUtils';
+
+const data: RawChannels = {
+  time: Float64Array.from([0, 0.01, 0.02, 0.03]),
+  ax: Float64Array.from([1.5, -2.25, 0.1, 3]),
+  ay: Float64Array.from([0, 0.3, -0.7, 1e-9]),
+  az: Float64Array.from([980.665, 981.1, 979.9, 980.2])
+};
+
+const recording: RecordingInfo = {
+  sampleRate: { fs: 100, source: 'timeColumn', jitter: 0, isJittery: false },
+  unit: { unit: 'gal', source: 'header' },
+  issues: []
+};
+
+const settings: SessionSettings = {
+  lang: 'en',
+  themeId: 'antigravity',
+  gapRepairMode: 'interpolate',
+  segmentIndex: 0,
+  orientation: DEFAULT_ORIENTATION,
+  deviceName: '',
+  filterConfig: { enabled: true, stages: [createFilterStage('bandpass')], isStandardWeighting: true, verticalWeighting: 'Wb', targetAxes: 'all' },
+  driftCorrection: NO_DRIFT_CORRECTION,
+  resampleRate: null,
+  accelAxis: 'az',
+  intAxis: 'vz',
+  selectedRun: 1,
+  boundaryOverrides: { runs: [{ start: 2, end: 18, boundaries: { t0: 4, t1: 6, t2: 14, t3: 16, isValid: true, isManual: true } }] },
+  windowStart: 1.5,
+  windowSize: 4,
+  viewDomain: null,
+  yScale: { accelMin: '', accelMax: '', intMin: '-1', intMax: '1' },
+  chartHeight: 350,
+  showIsoBoundaries: true,
+  isFFTVisible: true,
+  showFilterOverlay: false,
+  spectrumMode: 'fft',
+  crossChannels: ['ax', 'az'],
+  spectrumConfig: DEFAULT_SPECTRUM_CONFIG,
+  isSpectrogramVisible: true,
+  spectrogramConfig: DEFAULT_SPECTROGRAM_CONFIG,
+  octaveSource: 'window',
+  envelopeConfig: DEFAULT_ENVELOPE_CONFIG,
+  elevatorConfig: DEFAULT_ELEVATOR_CONFIG,
+  refLineLevel: null
+};
+
+const results = { boundaries: null, isoStats: null, kinematics: null, aiResult: null };
+
+const saved = async () => JSON.parse(JSON.stringify(await createSession('run1.csv', recording, EMPTY_METADATA, data, settings, results)));
+
+describe('session files', () => {
+  it('round-trips the samples and settings exactly', async () => {
+    const { session, data: restored } = await readSession(JSON.stringify(await saved()));
+    expect(session.version).toBe(SESSION_VERSION);
+    expect(session.settings).toEqual(settings);
+    expect(restored).toEqual(data);
+  });
+
+  it('migrates a v1 session written before the later settings existed', async () => {
+    const file = await saved();
+    file.version = 1;
+    file.settings = {
+      ...settings,
+      filterConfig: { enabled: true, highPassFreq: 0.5, lowPassFreq: 0, isStandardWeighting: true },
+      boundaryOverrides: { 0: settings.boundaryOverrides.runs[0].boundaries, '2.000-18.000': settings.boundaryOverrides.runs[0].boundaries }
+    };
+    for (const key of ['driftCorrection', 'resampleRate', 'selectedRun', 'showFilterOverlay', 'spectrumMode', 'crossChannels', 'spectrumConfig',
+      'isSpectrogramVisible', 'spectrogramConfig', 'octaveSource', 'envelopeConfig', 'elevatorConfig']) {
+      delete file.settings[key];
+    }
+    delete file.metadata;
+    delete file.results.kinematics;
+
+    const { session } = await readSession(JSON.stringify(file));
+    const s = session.settings;
+    expect(s.filterConfig.stages).toEqual([{ ...createFilterStage('highpass'), order: 2, freq: 0.5 }]);
+    // Before weighting curves existed the flag did nothing
+    expect(s.filterConfig.isStandardWeighting).toBe(false);
+    expect(s.driftCorrection).toEqual(NO_DRIFT_CORRECTION);
+    expect(s.selectedRun).toBe(0);
+    // Index keys cannot be placed on a run, span keys can
+    expect(s.boundaryOverrides).toEqual(settings.boundaryOverrides);
+    expect(s.crossChannels).toEqual(['ax', 'ay']);
+    expect(session.metadata).toEqual(EMPTY_METADATA);
+    expect(session.results.kinematics).toBeNull();
+  });
+
+  it('rejects newer, modified and invalid files', async () => {
+    const newer = { ...await saved(), version: SESSION_VERSION + 1 };
+    await expect(readSession(JSON.stringify(newer))).rejects.toThrow(/newer version/);
+
+    const modified = await saved();
+    modified.data.az = (await saved()).data.ax;
+    await expect(readSession(JSON.stringify(modified))).rejects.toThrow(/checksum/);
+
+    const invalid = await saved();
+    invalid.settings.windowSize = '4';
+    await expect(readSession(JSON.stringify(invalid))).rejects.toThrow(/invalid settings/);
+
+    await expect(readSession(JSON.stringify({ format: SESSION_FORMAT }))).rejects.toThrow(/version/);
+  });
+});
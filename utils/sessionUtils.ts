@@ -0,0 +1,270 @@
+import {
+  BoundaryOverrides, ElevatorBoundaries, FilterConfig, FilterStage, RawChannels, RecordingInfo, RecordingMetadata, SessionFile, SessionSettings
+} from '../types';
+import { ImportError } from './importUtils';
+import { createFilterStage } from './dspUtils';
+import { DEFAULT_SPECTRUM_CONFIG, DEFAULT_SPECTROGRAM_CONFIG, NO_BOUNDARY_OVERRIDES } from './mathUtils';
+import { NO_DRIFT_CORRECTION } from './integrationUtils';
+import { DEFAULT_ENVELOPE_CONFIG } from './envelopeUtils';
+import { DEFAULT_ELEVATOR_CONFIG } from './peakUtils';
+import { EMPTY_METADATA } from './metadataUtils';
+
+export const SESSION_FORMAT = 'mese-vibration-session';
+export const SESSION_VERSION = 2;
+export const SESSION_EXTENSION = '.vibra.json';
+
+const CHANNELS = ['time', 'ax', 'ay', 'az'] as const;
+
+// --- Encoding ---
+
+// Float64Array <-> base64 of its little-endian bytes (exact, unlike decimal text)
+const isLittleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+const toLittleEndianBytes = (values: Float64Array): Uint8Array => {
+  if (isLittleEndian) return new Uint8Array(values.buffer, values.byteOffset, values.byteLength);
+  const bytes = new Uint8Array(values.length * 8);
+  const view = new DataView(bytes.buffer);
+  values.forEach((v, i) => view.setFloat64(i * 8, v, true));
+  return bytes;
+};
+
+const encodeFloat64 = (values: Float64Array): string => {
+  const bytes = toLittleEndianBytes(values);
+  // Chunked so String.fromCharCode does not hit the argument limit
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const decodeFloat64 = (text: string, samples: number, name: string): Float64Array => {
+  let binary: string;
+  try {
+    binary = atob(text);
+  } catch (e) {
+    throw new ImportError(`Session channel "${name}" is not valid base64`);
+  }
+  if (binary.length !== samples * 8) {
+    throw new ImportError(`Session channel "${name}" has ${binary.length / 8} samples, expected ${samples}`);
+  }
+  const view = new DataView(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) view.setUint8(i, binary.charCodeAt(i));
+  const out = new Float64Array(samples);
+  for (let i = 0; i < samples; i++) out[i] = view.getFloat64(i * 8, true);
+  return out;
+};
+
+// SHA-256 over the channel bytes, so a reopened session can be matched to the recording it came from
+export const hashChannels = async (data: RawChannels): Promise<string> => {
+  const parts = CHANNELS.map(c => toLittleEndianBytes(data[c]));
+  const all = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { all.set(p, offset); offset += p.length; });
+  const digest = await crypto.subtle.digest('SHA-256', all);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// --- Checks ---
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+const DATA_AXES = ['ax', 'ay', 'az', 'vz', 'sz', 'jz'] as const;
+
+const isFilterStage = (value: unknown): value is FilterStage =>
+  isObject(value) &&
+  isOneOf(value.type, ['lowpass', 'highpass', 'bandpass', 'bandstop', 'notch'] as const) &&
+  typeof value.enabled === 'boolean' &&
+  [2, 4, 6, 8].includes(value.order as number) &&
+  isNumber(value.freq) && isNumber(value.freqHigh) && isNumber(value.q);
+
+const isBoundaries = (value: unknown): value is ElevatorBoundaries =>
+  isObject(value) && [value.t0, value.t1, value.t2, value.t3].every(isNumber) && typeof value.isValid === 'boolean';
+
+const isBoundaryOverrides = (value: unknown): value is BoundaryOverrides =>
+  isObject(value) &&
+  (value.all === undefined || isBoundaries(value.all)) &&
+  Array.isArray(value.runs) &&
+  value.runs.every(o => isObject(o) && isNumber(o.start) && isNumber(o.end) && isBoundaries(o.boundaries));
+
+// Every setting present with the type the app restores it as (nested configs are checked as objects)
+const isSessionSettings = (s: JsonObject): s is JsonObject & SessionSettings =>
+  isOneOf(s.lang, ['zh', 'en'] as const) &&
+  typeof s.themeId === 'string' &&
+  isOneOf(s.gapRepairMode, ['interpolate', 'split', 'none'] as const) &&
+  isNumber(s.segmentIndex) &&
+  isObject(s.orientation) &&
+  typeof s.deviceName === 'string' &&
+  isObject(s.filterConfig) && Array.isArray(s.filterConfig.stages) && s.filterConfig.stages.every(isFilterStage) &&
+  isObject(s.driftCorrection) &&
+  (s.resampleRate === null || isNumber(s.resampleRate)) &&
+  isOneOf(s.accelAxis, DATA_AXES) &&
+  isOneOf(s.intAxis, DATA_AXES) &&
+  (s.selectedRun === null || isNumber(s.selectedRun)) &&
+  isBoundaryOverrides(s.boundaryOverrides) &&
+  isNumber(s.windowStart) &&
+  isNumber(s.windowSize) &&
+  (s.viewDomain === null || (Array.isArray(s.viewDomain) && s.viewDomain.length === 2 && s.viewDomain.every(isNumber))) &&
+  isObject(s.yScale) && [s.yScale.accelMin, s.yScale.accelMax, s.yScale.intMin, s.yScale.intMax].every(v => typeof v === 'string') &&
+  isNumber(s.chartHeight) &&
+  typeof s.showIsoBoundaries === 'boolean' &&
+  typeof s.isFFTVisible === 'boolean' &&
+  typeof s.showFilterOverlay === 'boolean' &&
+  isOneOf(s.spectrumMode, ['fft', 'envelope', 'cross'] as const) &&
+  Array.isArray(s.crossChannels) && s.crossChannels.length === 2 && s.crossChannels.every(c => isOneOf(c, DATA_AXES)) &&
+  isObject(s.spectrumConfig) &&
+  typeof s.isSpectrogramVisible === 'boolean' &&
+  isObject(s.spectrogramConfig) &&
+  isOneOf(s.octaveSource, ['window', 'constVel'] as const) &&
+  isObject(s.envelopeConfig) &&
+  isObject(s.elevatorConfig) &&
+  (s.refLineLevel === null || isNumber(s.refLineLevel));
+
+// --- Older Sessions ---
+
+// Sessions saved before filter stages existed carry a single high-pass / low-pass pair,
+// and before weighting curves existed isStandardWeighting did not change the data
+const upgradeFilterConfig = (value: unknown): FilterConfig => {
+  const config = isObject(value) ? value : {};
+  const legacyStage = (type: 'highpass' | 'lowpass', freq: unknown): FilterStage[] =>
+    isNumber(freq) && freq > 0 ? [{ ...createFilterStage(type), order: 2, freq }] : [];
+  return {
+    enabled: config.enabled === true,
+    stages: Array.isArray(config.stages)
+      ? config.stages.filter(isFilterStage)
+      : [...legacyStage('highpass', config.highPassFreq), ...legacyStage('lowpass', config.lowPassFreq)],
+    isStandardWeighting: config.verticalWeighting !== undefined && config.isStandardWeighting === true,
+    verticalWeighting: config.verticalWeighting === 'Wb' ? 'Wb' : 'Wk',
+    targetAxes: config.targetAxes === 'z-only' ? 'z-only' : 'all'
+  };
+};
+
+// Manual boundaries used to be keyed by run index, then by "start-end" span; index keys cannot be placed
+const upgradeBoundaryOverrides = (value: unknown): BoundaryOverrides => {
+  if (!isObject(value)) return NO_BOUNDARY_OVERRIDES;
+  const runs = Object.entries(value).flatMap(([key, boundaries]) => {
+    const span = /^(-?[\d.]+)-(-?[\d.]+)$/.exec(key);
+    return span && isBoundaries(boundaries) ? [{ start: Number(span[1]), end: Number(span[2]), boundaries }] : [];
+  });
+  return isBoundaries(value.all) ? { all: value.all, runs } : { runs };
+};
+
+// v1 grew while it was current: settings added along the way are missing from early files and get
+// the values the app had before they existed. Its data may also have had the means removed.
+const upgradeV1 = (session: JsonObject): JsonObject => {
+  const s = isObject(session.settings) ? session.settings : {};
+  const results = isObject(session.results) ? session.results : {};
+  return {
+    ...session,
+    metadata: { ...EMPTY_METADATA, ...(isObject(session.metadata) ? session.metadata : {}) },
+    settings: {
+      ...s,
+      filterConfig: upgradeFilterConfig(s.filterConfig),
+      driftCorrection: s.driftCorrection ?? NO_DRIFT_CORRECTION,
+      resampleRate: s.resampleRate ?? null,
+      selectedRun: s.selectedRun === undefined ? 0 : s.selectedRun,
+      boundaryOverrides: upgradeBoundaryOverrides(s.boundaryOverrides),
+      showFilterOverlay: s.showFilterOverlay ?? false,
+      spectrumMode: s.spectrumMode ?? 'fft',
+      crossChannels: s.crossChannels ?? ['ax', 'ay'],
+      spectrumConfig: s.spectrumConfig ?? DEFAULT_SPECTRUM_CONFIG,
+      isSpectrogramVisible: s.isSpectrogramVisible ?? true,
+      spectrogramConfig: s.spectrogramConfig ?? DEFAULT_SPECTROGRAM_CONFIG,
+      octaveSource: s.octaveSource ?? 'window',
+      envelopeConfig: s.envelopeConfig ?? DEFAULT_ENVELOPE_CONFIG,
+      elevatorConfig: s.elevatorConfig ?? DEFAULT_ELEVATOR_CONFIG
+    },
+    results: { ...results, kinematics: results.kinematics ?? null }
+  };
+};
+
+// MIGRATIONS[v - 1] turns a version v session into version v + 1; bump SESSION_VERSION and add a step
+// whenever what a session holds changes
+const MIGRATIONS: ((session: JsonObject) => JsonObject)[] = [upgradeV1];
+
+// --- Save / Open ---
+
+export const createSession = async (
+  fileName: string,
+  recording: RecordingInfo,
+  metadata: RecordingMetadata,
+  data: RawChannels,
+  settings: SessionSettings,
+  results: SessionFile['results']
+): Promise<SessionFile> => ({
+  format: SESSION_FORMAT,
+  version: SESSION_VERSION,
+  savedAt: new Date().toISOString(),
+  fileName,
+  recording,
+  metadata,
+  data: {
+    encoding: 'float64le-base64',
+    samples: data.time.length,
+    sha256: await hashChannels(data),
+    time: encodeFloat64(data.time),
+    ax: encodeFloat64(data.ax),
+    ay: encodeFloat64(data.ay),
+    az: encodeFloat64(data.az)
+  },
+  settings,
+  results
+});
+
+export const isSessionFileName = (fileName: string) => fileName.toLowerCase().endsWith(SESSION_EXTENSION);
+
+// Session file name for a recording: "run1.csv" -> "run1.vibra.json"
+export const sessionFileName = (recordingName: string) =>
+  `${recordingName.replace(/\.[^.]+$/, '') || 'session'}${SESSION_EXTENSION}`;
+
+// Parse and verify a session; the data hash must match so a colleague sees exactly what was saved
+export const readSession = async (text: string): Promise<{ session: SessionFile; data: RawChannels }> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new ImportError('Session file is not valid JSON');
+  }
+
+  // 1. Format and version
+  if (!isObject(parsed) || parsed.format !== SESSION_FORMAT) throw new ImportError('Not a vibration analysis session file');
+  const { version } = parsed;
+  if (!isNumber(version) || !Number.isInteger(version) || version < 1) throw new ImportError('Session file has no valid format version');
+  if (version > SESSION_VERSION) {
+    throw new ImportError(`Session was saved by a newer version (format v${version}); please update the app`);
+  }
+  const { data: encoded } = parsed;
+  if (!isObject(encoded) || encoded.encoding !== 'float64le-base64' || !isObject(parsed.settings) || !isObject(parsed.recording)) {
+    throw new ImportError('Session file is incomplete');
+  }
+
+  // 2. Samples
+  const samples = Number(encoded.samples);
+  if (!Number.isInteger(samples) || samples < 1) throw new ImportError('Session file contains no samples');
+  const [time, ax, ay, az] = CHANNELS.map(c => decodeFloat64(String(encoded[c] ?? ''), samples, c));
+  const data: RawChannels = { time, ax, ay, az };
+
+  // 3. Integrity
+  const sha256 = await hashChannels(data);
+  if (sha256 !== encoded.sha256) {
+    throw new ImportError('Session data does not match its checksum; the file was modified or is corrupt');
+  }
+
+  // 4. Migrate step by step to the current version, then check the result
+  let session: JsonObject = parsed;
+  for (let v = version; v < SESSION_VERSION; v++) session = MIGRATIONS[v - 1](session);
+  const { settings, recording, results } = session;
+  if (!isObject(settings) || !isSessionSettings(settings) || !isObject(recording) || !isObject(recording.sampleRate) || !isObject(results)) {
+    throw new ImportError(`Session file (format v${version}) has missing or invalid settings`);
+  }
+
+  return { session: { ...session, version: SESSION_VERSION, settings } as unknown as SessionFile, data };
+};
@@ -0,0 +1,157 @@
+import { RawChannels, SampleRateInfo, GapRepairMode, DataQualityReport, TimeGap } from '../types';
+
+// An interval longer than this many nominal sample periods is a gap (dropout)
+const GAP_FACTOR = 1.5;
+
+// Stamps closer than this fraction of a period are treated as the same sample
+const DUPLICATE_TOLERANCE = 0.01;
+
+// Gaps at least this long are where 'split' mode cuts the recording
+export const LARGE_GAP_SECONDS = 0.1;
+
+// Only the longest gaps are kept in the report
+const MAX_LISTED_GAPS = 20;
+
+const gatherChannels = (data: RawChannels, kept: Uint32Array): RawChannels => {
+  const n = kept.length;
+  const out: RawChannels = { time: new Float64Array(n), ax: new Float64Array(n), ay: new Float64Array(n), az: new Float64Array(n) };
+  for (let i = 0; i < n; i++) {
+    const k = kept[i];
+    out.time[i] = data.time[k];
+    out.ax[i] = data.ax[k];
+    out.ay[i] = data.ay[k];
+    out.az[i] = data.az[k];
+  }
+  return out;
+};
+
+// Check the time base for out-of-order stamps, duplicates and dropouts, then repair it:
+// - always: sort by time and keep the first sample of each duplicated stamp
+// - 'interpolate': linear interpolation onto a uniform 1/fs grid across the whole recording (also removes jitter)
+// - 'split': same, but only for the segment between large gaps selected by segmentIndex
+// - 'none': leave gaps in place (integration assumes uniform spacing, so results across gaps are off)
+// Returns the input object unchanged when nothing needs fixing, so downstream caches stay valid.
+export const repairTimeBase = (
+  data: RawChannels,
+  sampleRate: SampleRateInfo,
+  mode: GapRepairMode = 'interpolate',
+  segmentIndex: number = 0
+): { data: RawChannels; report: DataQualityReport } => {
+  const { time } = data;
+  const n = time.length;
+  const dt = 1 / sampleRate.fs;
+
+  // 1. Order: count stamps that go backwards, sort (stable) only if there are any
+  let nonMonotonic = 0;
+  for (let i = 1; i < n; i++) {
+    if (time[i] < time[i - 1]) nonMonotonic++;
+  }
+  const order = new Uint32Array(n);
+  for (let i = 0; i < n; i++) order[i] = i;
+  if (nonMonotonic > 0) order.sort((a, b) => time[a] - time[b] || a - b);
+
+  // 2. Duplicates: keep the first sample at each stamp
+  const keptAll = new Uint32Array(n);
+  let k = 0, duplicates = 0;
+  for (let j = 0; j < n; j++) {
+    const i = order[j];
+    if (k > 0 && time[i] - time[keptAll[k - 1]] < dt * DUPLICATE_TOLERANCE) {
+      duplicates++;
+      continue;
+    }
+    keptAll[k++] = i;
+  }
+  const kept = keptAll.subarray(0, k);
+
+  // 3. Gaps, and segments between large gaps (as [first, last] positions in `kept`)
+  const gaps: TimeGap[] = [];
+  const segmentBounds: [number, number][] = [];
+  let missingSamples = 0, largeGaps = 0, segStart = 0;
+  for (let p = 1; p < k; p++) {
+    const interval = time[kept[p]] - time[kept[p - 1]];
+    if (interval <= dt * GAP_FACTOR) continue;
+    const missing = Math.max(1, Math.round(interval / dt) - 1);
+    gaps.push({ time: time[kept[p - 1]], duration: interval, missing });
+    missingSamples += missing;
+    if (interval >= LARGE_GAP_SECONDS) {
+      largeGaps++;
+      segmentBounds.push([segStart, p - 1]);
+      segStart = p;
+    }
+  }
+  if (k > 0) segmentBounds.push([segStart, k - 1]);
+
+  const gapCount = gaps.length;
+  gaps.sort((a, b) => b.duration - a.duration);
+
+  const report: DataQualityReport = {
+    inputSamples: n,
+    outputSamples: n,
+    nonMonotonic,
+    duplicates,
+    gapCount,
+    gaps: gaps.slice(0, MAX_LISTED_GAPS),
+    missingSamples,
+    largeGaps,
+    segments: segmentBounds.map(([a, b]) => ({ start: time[kept[a]], end: time[kept[b]], samples: b - a + 1 })),
+    mode,
+    segmentIndex: 0,
+    sorted: false,
+    duplicatesRemoved: 0,
+    filledSamples: 0,
+    resampled: false
+  };
+
+  // 4. Nothing to fix
+  const ordered = nonMonotonic === 0 && duplicates === 0;
+  if (k < 2 || (ordered && gapCount === 0 && !sampleRate.isJittery)) {
+    return { data, report };
+  }
+
+  report.sorted = nonMonotonic > 0;
+  report.duplicatesRemoved = duplicates;
+
+  if (mode === 'none') {
+    const out = ordered ? data : gatherChannels(data, kept);
+    report.outputSamples = out.time.length;
+    return { data: out, report };
+  }
+
+  // 5. Resample the chosen stretch onto a uniform grid, starting at t = 0
+  const seg = mode === 'split' ? Math.min(Math.max(0, Math.floor(segmentIndex)), segmentBounds.length - 1) : 0;
+  const [first, last] = mode === 'split' ? segmentBounds[seg] : [0, k - 1];
+  const t0 = time[kept[first]];
+  const m = Math.floor((time[kept[last]] - t0) / dt + 1e-6) + 1;
+
+  const out: RawChannels = { time: new Float64Array(m), ax: new Float64Array(m), ay: new Float64Array(m), az: new Float64Array(m) };
+  let p = first, filled = 0;
+  for (let i = 0; i < m; i++) {
+    const t = t0 + i * dt;
+    while (p < last && time[kept[p + 1]] <= t) p++;
+
+    const ia = kept[p];
+    out.time[i] = i * dt;
+    if (p === last) {
+      out.ax[i] = data.ax[ia];
+      out.ay[i] = data.ay[ia];
+      out.az[i] = data.az[ia];
+      continue;
+    }
+
+    const ib = kept[p + 1];
+    const ta = time[ia], tb = time[ib];
+    const w = (t - ta) / (tb - ta);
+    out.ax[i] = data.ax[ia] + (data.ax[ib] - data.ax[ia]) * w;
+    out.ay[i] = data.ay[ia] + (data.ay[ib] - data.ay[ia]) * w;
+    out.az[i] = data.az[ia] + (data.az[ib] - data.az[ia]) * w;
+
+    // Grid point with no real sample within half a period: made up by interpolation
+    if (tb - ta > dt * GAP_FACTOR && t - ta > dt * 0.5 && tb - t > dt * 0.5) filled++;
+  }
+
+  report.segmentIndex = seg;
+  report.outputSamples = m;
+  report.filledSamples = filled;
+  report.resampled = true;
+  return { data: out, report };
+};
@@ -0,0 +1,267 @@
+import { UffChannel, ColumnMapping, ParsedRecording, AccelUnit, UnitInfo, SampleRateInfo, ImportIssue } from '../types';
+import { ImportError, ACCEL_UNIT_TO_GAL, parseAccelUnit, estimateSampleRate, JITTER_TOLERANCE } from './importUtils';
+
+// Universal File Format dataset 58 (function at nodal DOF), ASCII "58" and binary "58b" variants.
+// Records are wrapped in "    -1" delimiter lines; any other dataset type is skipped.
+
+const UFF_DELIMITER = '-1';
+
+// Numbers in fixed-width Fortran fields, which may touch ("1.0E+00-2.0E+00") or use a D exponent
+const FORTRAN_NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eEdD][-+]?\d+)?/g;
+
+const PREVIEW_POINTS = 5;
+
+const ORDINATE_TYPES: Record<number, { bytes: 4 | 8; complex: boolean }> = {
+  2: { bytes: 4, complex: false },
+  4: { bytes: 8, complex: false },
+  5: { bytes: 4, complex: true },
+  6: { bytes: 8, complex: true }
+};
+
+export interface UffDataset extends UffChannel {
+  values: Float64Array; // real ordinate values (empty for complex data)
+  abscissa: Float64Array | null; // only for uneven spacing
+}
+
+const parseNumbers = (line: string): number[] =>
+  (line.match(FORTRAN_NUMBER) || []).map(n => Number(n.replace(/[dD]/, 'e')));
+
+const fixedInt = (line: string, start: number, end: number): number => {
+  const value = parseInt(line.slice(start, end).trim(), 10);
+  return isNaN(value) ? 0 : value;
+};
+
+// Line reader over raw bytes, so the binary block of a 58b record can be read in place
+const createLineReader = (bytes: Uint8Array) => {
+  const decoder = new TextDecoder('latin1');
+  let pos = 0;
+
+  const next = (): string | null => {
+    if (pos >= bytes.length) return null;
+    let end = bytes.indexOf(10, pos);
+    if (end === -1) end = bytes.length;
+    const stop = end > pos && bytes[end - 1] === 13 ? end - 1 : end;
+    const line = decoder.decode(bytes.subarray(pos, stop));
+    pos = end + 1;
+    return line;
+  };
+
+  const skipTo = (delimiter: string) => {
+    let line: string | null;
+    while ((line = next()) !== null && line.trim() !== delimiter);
+  };
+
+  return { next, skipTo, position: () => pos, advance: (n: number) => { pos += n; } };
+};
+
+type LineReader = ReturnType<typeof createLineReader>;
+
+// Binary header line: "58b", byte order (1 = little, 2 = big), float format (2 = IEEE 754), ASCII lines, data bytes
+const readDataset58 = (
+  reader: LineReader,
+  bytes: Uint8Array,
+  binary: number[] | null,
+  index: number,
+  previewOnly: boolean
+): UffDataset => {
+  const header = Array.from({ length: 11 }, () => reader.next() ?? '');
+
+  // 1. Record 6: 2(I5,I10),2(1X,10A1,I10,I4) -> function type, response node and direction
+  const r6 = header[5];
+  let functionType = fixedInt(r6, 0, 5);
+  let node = fixedInt(r6, 41, 51);
+  let direction = fixedInt(r6, 51, 55);
+  if (r6.length < 55) {
+    // Not column-aligned: fall back to the numeric tokens (type, id, version, load case, node, direction)
+    const nums = parseNumbers(r6);
+    functionType = nums[0] ?? 0;
+    node = nums[4] ?? 0;
+    direction = nums[5] ?? 0;
+  }
+
+  // 2. Record 7: 3I10,3E13.5 -> ordinate type, points, spacing, x min, dx
+  const [ordinateType = 0, points = 0, spacing = 1, , dx = 0] = parseNumbers(header[6]);
+  const ordinate = ORDINATE_TYPES[ordinateType];
+  if (!ordinate) throw new ImportError(`UFF dataset ${index + 1}: unsupported ordinate data type ${ordinateType}`);
+  const even = spacing === 1;
+
+  // 3. Records 8/9: I10,3I5,2(1X,20A1) -> specific data type and units label for abscissa / ordinate
+  const xType = fixedInt(header[7], 0, 10);
+  const xUnits = header[7].slice(47, 67).trim();
+  const dataType = fixedInt(header[8], 0, 10);
+  const units = header[8].slice(47, 67).trim();
+
+  // 4. Data: values per point = ordinate (1, or 2 if complex) + abscissa when uneven
+  const perPoint = (ordinate.complex ? 2 : 1) + (even ? 0 : 1);
+  const wanted = (previewOnly ? Math.min(points, PREVIEW_POINTS) : points) * perPoint;
+  const raw = new Float64Array(wanted);
+  let count = 0;
+
+  if (binary) {
+    const [, byteOrder, floatFormat, , dataBytes] = binary;
+    if (floatFormat !== 2) throw new ImportError(`UFF dataset ${index + 1}: only IEEE 754 binary data is supported`);
+    const start = reader.position();
+    if (start + dataBytes > bytes.length) throw new ImportError(`UFF dataset ${index + 1}: binary data is truncated`);
+    const view = new DataView(bytes.buffer, bytes.byteOffset + start, dataBytes);
+    const littleEndian = byteOrder === 1;
+    const available = Math.floor(dataBytes / ordinate.bytes);
+    for (; count < Math.min(wanted, available); count++) {
+      raw[count] = ordinate.bytes === 4
+        ? view.getFloat32(count * 4, littleEndian)
+        : view.getFloat64(count * 8, littleEndian);
+    }
+    reader.advance(dataBytes);
+    reader.skipTo(UFF_DELIMITER);
+  } else {
+    let line: string | null;
+    while ((line = reader.next()) !== null && line.trim() !== UFF_DELIMITER) {
+      if (count >= wanted) continue;
+      for (const value of parseNumbers(line)) {
+        if (count < wanted) raw[count++] = value;
+      }
+    }
+  }
+
+  if (count < wanted) {
+    throw new ImportError(`UFF dataset ${index + 1}: expected ${points} points, file ends after ${Math.floor(count / perPoint)}`);
+  }
+
+  // 5. Split interleaved abscissa / ordinate
+  const n = wanted / perPoint;
+  const values = new Float64Array(ordinate.complex ? 0 : n);
+  const abscissa = even ? null : new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    if (abscissa) abscissa[i] = raw[i * perPoint];
+    if (!ordinate.complex) values[i] = raw[i * perPoint + (even ? 0 : 1)];
+  }
+
+  return {
+    index,
+    label: header[0].trim(),
+    functionType,
+    node,
+    direction,
+    dataType,
+    units,
+    xType,
+    xUnits,
+    points,
+    even,
+    dx: even ? dx : 0,
+    complex: ordinate.complex,
+    preview: Array.from(values.subarray(0, PREVIEW_POINTS)),
+    values,
+    abscissa
+  };
+};
+
+// All dataset 58 records in the file; with previewOnly only the first few points of each are kept
+export const readUff = (buffer: ArrayBuffer, previewOnly: boolean = false): UffDataset[] => {
+  const bytes = new Uint8Array(buffer);
+  const reader = createLineReader(bytes);
+  const datasets: UffDataset[] = [];
+
+  let line: string | null;
+  while ((line = reader.next()) !== null) {
+    if (line.trim() !== UFF_DELIMITER) continue;
+    const typeLine = reader.next();
+    if (typeLine === null) break;
+
+    const fields = typeLine.trim().split(/\s+/);
+    if (fields[0] === '58' || fields[0] === '58b') {
+      const binary = fields[0] === '58b' ? fields.map(Number) : null;
+      datasets.push(readDataset58(reader, bytes, binary, datasets.length, previewOnly));
+    } else {
+      reader.skipTo(UFF_DELIMITER);
+    }
+  }
+
+  if (datasets.length === 0) throw new ImportError('No dataset 58 (function data) found in UFF file');
+  return datasets;
+};
+
+const DIRECTION_LABELS: Record<number, string> = { [-3]: '-Z', [-2]: '-Y', [-1]: '-X', 0: '', 1: '+X', 2: '+Y', 3: '+Z' };
+
+export const uffChannelLabel = (c: UffChannel) =>
+  [c.label || `Dataset ${c.index + 1}`, `node ${c.node}`, DIRECTION_LABELS[c.direction] ?? `dir ${c.direction}`].filter(Boolean).join(' · ');
+
+const isTimeHistory = (c: UffChannel) => !c.complex && (c.functionType === 1 || c.functionType === 0) && c.xType !== 18;
+
+// X/Y/Z from the response direction fields of one node, preferring channels typed as acceleration
+export const suggestUffMapping = (channels: UffChannel[]): { mapping: ColumnMapping; ambiguous: boolean } => {
+  const timeChannels = channels.filter(isTimeHistory);
+  const accel = timeChannels.filter(c => c.dataType === 12);
+  const candidates = accel.length >= 3 ? accel : timeChannels;
+
+  const nodes = [...new Set(candidates.map(c => c.node))];
+  for (const node of nodes) {
+    const find = (dir: number) => candidates.find(c => c.node === node && Math.abs(c.direction) === dir)?.index;
+    const [x, y, z] = [find(1), find(2), find(3)];
+    if (x !== undefined && y !== undefined && z !== undefined) {
+      return { mapping: { x, y, z, time: null }, ambiguous: false };
+    }
+  }
+
+  const picks = (candidates.length > 0 ? candidates : channels).map(c => c.index);
+  return {
+    mapping: { x: picks[0] ?? 0, y: picks[1] ?? picks[0] ?? 0, z: picks[2] ?? picks[0] ?? 0, time: null },
+    ambiguous: true
+  };
+};
+
+// Selected X/Y/Z datasets -> recording in Gals. Negative direction codes are flipped so +X/+Y/+Z come out.
+export const uffToRecording = (datasets: UffDataset[], mapping: ColumnMapping, unitOverride?: AccelUnit): ParsedRecording => {
+  const issues: ImportIssue[] = [];
+  const picked = [mapping.x, mapping.y, mapping.z].map(i => datasets[i]);
+  if (picked.some(d => !d)) throw new ImportError('Invalid channel mapping');
+
+  // 1. Every axis must be a real time history on the same time base
+  for (const d of picked) {
+    if (d.complex) throw new ImportError(`"${uffChannelLabel(d)}" holds complex data, not a time history`);
+    if (d.xType === 18) throw new ImportError(`"${uffChannelLabel(d)}" is frequency-domain data, not a time history`);
+  }
+  const n = Math.min(...picked.map(d => d.values.length));
+  if (n === 0) throw new ImportError('Selected UFF channels contain no data points');
+  if (picked.some(d => d.values.length !== n)) {
+    issues.push({ severity: 'warning', message: `Channels have different lengths; truncated to ${n} points` });
+  }
+
+  // 2. Sample rate from the abscissa increment (or the abscissa values when unevenly spaced)
+  const [ref] = picked;
+  const timeScale = /^ms$/i.test(ref.xUnits) ? 0.001 : 1;
+  let sampleRate: SampleRateInfo;
+  if (picked.every(d => d.even)) {
+    if (picked.some(d => Math.abs(d.dx - ref.dx) > Math.abs(ref.dx) * 1e-6)) {
+      throw new ImportError('Selected UFF channels have different abscissa increments');
+    }
+    if (!(ref.dx > 0)) throw new ImportError('UFF abscissa increment must be greater than 0');
+    sampleRate = { fs: 1 / (ref.dx * timeScale), source: 'header', jitter: 0, isJittery: false };
+  } else {
+    const stamps = (ref.abscissa ?? new Float64Array(0)).subarray(0, n).map(t => t * timeScale);
+    const est = estimateSampleRate(stamps);
+    if (!(est.fs > 0)) throw new ImportError('UFF abscissa values are not increasing');
+    sampleRate = { fs: est.fs, source: 'timeColumn', jitter: est.jitter, isJittery: est.jitter > JITTER_TOLERANCE };
+  }
+
+  // 3. Units per channel, from the ordinate units label
+  const channelUnits = picked.map(d => parseAccelUnit(d.units));
+  const headerUnit = channelUnits.find(u => u !== null) ?? null;
+  const unit: UnitInfo = unitOverride
+    ? { unit: unitOverride, source: 'manual' }
+    : { unit: headerUnit ?? 'gal', source: headerUnit ? 'header' : 'default' };
+
+  // 4. Assemble
+  const [ax, ay, az] = picked.map((d, c) => {
+    const k = ACCEL_UNIT_TO_GAL[unitOverride ?? channelUnits[c] ?? unit.unit] * (d.direction < 0 ? -1 : 1);
+    const out = new Float64Array(n);
+    for (let i = 0; i < n; i++) out[i] = d.values[i] * k;
+    return out;
+  });
+  const time = new Float64Array(n);
+  const t0 = ref.abscissa ? ref.abscissa[0] * timeScale : 0;
+  for (let i = 0; i < n; i++) {
+    time[i] = ref.abscissa ? ref.abscissa[i] * timeScale - t0 : i / sampleRate.fs;
+  }
+
+  return { data: { time, ax, ay, az }, sampleRate, unit, issues };
+};
@@ -0,0 +1,148 @@
+import { ImportWorkerRequest, ImportWorkerResponse, ParsedRecording, SampleFormat, AccelUnit, ImportSource, UffChannel } from '../types';
+import {
+  createDelimitedReader, decodeFrames, pcmFullScale, channelsToRecording, validateBinaryLayout, ImportError,
+  SAMPLE_FORMAT_BYTES, LINE_BREAK
+} from '../utils/importUtils';
+import { processVibrationData } from '../utils/mathUtils';
+import { readUff, uffToRecording } from '../utils/uffUtils';
+
+// Parses a recording off the main thread, reading the File in chunks.
+// Posts 'progress' per chunk and a single 'done' with the imported channels (gravity and offsets kept) and
+// their integration, whose typed arrays are transferred (not copied) to the page,
+// or 'channels' when only a UFF file's channel list was asked for.
+// Cancellation is done by the page terminating the worker.
+
+const CHUNK_BYTES = 4 * 1024 * 1024;
+
+const ctx = self as unknown as Worker;
+
+const post = (msg: ImportWorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(msg, transfer);
+
+const reportProgress = (loaded: number, total: number) => post({ type: 'progress', loaded, total });
+
+const readText = async (
+  file: File,
+  source: Extract<ImportSource, { kind: 'text' }>,
+  defaultFs: number,
+  unitOverride?: AccelUnit
+): Promise<ParsedRecording> => {
+  const reader = createDelimitedReader(source.table, source.mapping, defaultFs, unitOverride);
+  const decoder = new TextDecoder();
+  let carry = '';
+  let lineNo = 0;
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_BYTES) {
+    const chunk = await file.slice(offset, offset + CHUNK_BYTES).arrayBuffer();
+    const isLast = offset + CHUNK_BYTES >= file.size;
+    let text = carry + decoder.decode(chunk, { stream: !isLast });
+    if (offset === 0) text = text.replace(/^\uFEFF/, '');
+
+    // Hold back a trailing CR so a CRLF split across chunks is not counted as two line breaks
+    let heldBack = '';
+    if (!isLast && text.endsWith('\r')) {
+      heldBack = '\r';
+      text = text.slice(0, -1);
+    }
+
+    const lines = text.split(LINE_BREAK);
+    carry = isLast ? '' : lines.pop()! + heldBack;
+    for (const line of lines) reader.addLine(line, ++lineNo);
+
+    reportProgress(Math.min(offset + CHUNK_BYTES, file.size), file.size);
+  }
+
+  return reader.finish();
+};
+
+// Whole file in one buffer, for formats that have to be parsed record by record (UFF)
+const readAll = async (file: File): Promise<ArrayBuffer> => {
+  const bytes = new Uint8Array(file.size);
+  for (let offset = 0; offset < file.size; offset += CHUNK_BYTES) {
+    const chunk = await file.slice(offset, offset + CHUNK_BYTES).arrayBuffer();
+    bytes.set(new Uint8Array(chunk), offset);
+    reportProgress(Math.min(offset + CHUNK_BYTES, file.size), file.size);
+  }
+  return bytes.buffer;
+};
+
+// Decode interleaved frames from [start, start + byteLength) in frame-aligned chunks
+const readFrames = async (
+  file: File,
+  start: number,
+  byteLength: number,
+  channelCount: number,
+  format: SampleFormat,
+  littleEndian: boolean
+): Promise<Float64Array[]> => {
+  const frameBytes = SAMPLE_FORMAT_BYTES[format] * channelCount;
+  const frames = Math.floor(byteLength / frameBytes);
+  const out = Array.from({ length: channelCount }, () => new Float64Array(frames));
+  const chunkBytes = Math.max(1, Math.floor(CHUNK_BYTES / frameBytes)) * frameBytes;
+  const end = start + frames * frameBytes;
+
+  let done = 0;
+  for (let offset = start; offset < end; offset += chunkBytes) {
+    const buf = await file.slice(offset, Math.min(offset + chunkBytes, end)).arrayBuffer();
+    done += decodeFrames(new DataView(buf), 0, buf.byteLength, format, littleEndian, out, done);
+    reportProgress(Math.min(offset + chunkBytes, end), end);
+  }
+  return out;
+};
+
+type RecordingRequest = ImportWorkerRequest & { source: Exclude<ImportSource, { kind: 'uffChannels' }> };
+
+const parse = async ({ file, source, defaultFs, unitOverride }: RecordingRequest): Promise<ParsedRecording> => {
+  if (source.kind === 'text') {
+    return readText(file, source, defaultFs, unitOverride);
+  }
+
+  if (source.kind === 'wav') {
+    const { header } = source;
+    const channels = await readFrames(file, header.dataStart, header.dataLength, header.channelCount, header.format, true);
+    // PCM normalised to ±1 full scale, so `scale` is the value at full scale
+    const { offset, fullScale } = pcmFullScale(header.format);
+    if (offset !== 0 || fullScale !== 1) {
+      channels.forEach(ch => { for (let i = 0; i < ch.length; i++) ch[i] = (ch[i] - offset) / fullScale; });
+    }
+    return channelsToRecording(channels, source.mapping, header.fs, 'header', source.scale, unitOverride);
+  }
+
+  if (source.kind === 'uff') {
+    return uffToRecording(readUff(await readAll(file)), source.mapping, unitOverride);
+  }
+
+  const { layout } = source;
+  validateBinaryLayout(layout, file.size);
+  const channels = await readFrames(file, layout.headerBytes, file.size - layout.headerBytes, layout.channels, layout.format, layout.littleEndian);
+  return channelsToRecording(channels, source.mapping, layout.fs, 'manual', layout.scale, unitOverride);
+};
+
+// Dataset headers are spread through a UFF file, so listing its channels reads all of it
+const scanUff = async (file: File) => {
+  const channels: UffChannel[] = readUff(await readAll(file), true).map(({ values, abscissa, ...channel }) => channel);
+  post({ type: 'channels', channels });
+};
+
+ctx.onmessage = async (e: MessageEvent<ImportWorkerRequest>) => {
+  try {
+    const { source } = e.data;
+    if (source.kind === 'uffChannels') {
+      await scanUff(e.data.file);
+      return;
+    }
+    const { data: raw, ...info } = await parse({ ...e.data, source });
+    const processed = processVibrationData(raw, info.sampleRate.fs);
+    post(
+      { type: 'done', raw, processed, info },
+      [
+        raw.time.buffer, raw.ax.buffer, raw.ay.buffer, raw.az.buffer,
+        processed.ax.buffer, processed.ay.buffer, processed.az.buffer, processed.vz.buffer, processed.sz.buffer, processed.jz.buffer
+      ]
+    );
+  } catch (err) {
+    const issues = err instanceof ImportError
+      ? err.issues
+      : [{ severity: 'error' as const, message: err instanceof Error ? err.message : String(err) }];
+    post({ type: 'error', issues });
+  }
+};